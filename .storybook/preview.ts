@@ -1,6 +1,7 @@
 import type { Preview, Decorator } from "@storybook/react";
 import { useEffect } from "react";
 import "../src/styles.css";
+import "../src/tremor-gauge.css";
 import "./preview-styles.css";
 
 const withTheme: Decorator = (Story, context) => {
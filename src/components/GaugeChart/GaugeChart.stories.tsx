@@ -1,5 +1,9 @@
 import type { Meta, StoryObj } from "@storybook/react";
+import { useEffect, useRef, useState } from "react";
 import { GaugeChart } from "./GaugeChart";
+import { useGauge } from "../../hooks/useGauge";
+import { colorValues } from "../../utils/chartColors";
+import type { GaugeHoldHandle } from "../../utils/hold";
 
 const meta: Meta<typeof GaugeChart> = {
   title: "Components/GaugeChart",
@@ -16,12 +20,11 @@ const meta: Meta<typeof GaugeChart> = {
   argTypes: {
     color: {
       control: "select",
-      options: [
-        "blue", "emerald", "violet", "amber", "gray",
-        "cyan", "pink", "lime", "fuchsia",
-      ],
+      options: Object.keys(colorValues),
     },
-    arcSpan: { control: "select", options: [180, 240, 270] },
+    arcSpan: { control: { type: "range", min: 1, max: 360 } },
+    orientation: { control: "select", options: ["bottom", "top", "left", "right"] },
+    direction: { control: "select", options: ["clockwise", "counterclockwise"] },
     strokeWidth: { control: { type: "range", min: 4, max: 24, step: 2 } },
     value: { control: { type: "range", min: 0, max: 100 } },
     showThresholdArc: { control: "select", options: [false, true, "ticks", "bands"] },
@@ -95,6 +98,73 @@ export const Gradient: Story = {
   },
 };
 
+export const InterpolatedColor: Story = {
+  name: "Interpolated threshold colors",
+  args: {
+    value: 68,
+    arcSpan: 240,
+    thresholds: [
+      { value: 0, color: "emerald" },
+      { value: 60, color: "amber" },
+      { value: 90, color: "pink" },
+    ],
+    colorMode: "interpolate",
+    showThresholdArc: "bands",
+    label: "Temperature",
+    valueFormatter: (v: number) => `${v}°C`,
+  },
+};
+
+export const CustomColors: Story = {
+  name: "Custom colors",
+  args: {
+    value: 94,
+    arcSpan: 240,
+    thresholds: [
+      { value: 0, color: "#0ea5e9" },
+      { value: 70, color: "hsl(38 92% 50%)" },
+      { value: 90, color: "red" },
+    ],
+    showThresholdArc: "bands",
+    label: "Error budget used",
+    valueFormatter: (v: number) => `${v}%`,
+  },
+};
+
+export const GradientStops: Story = {
+  name: "Gradient with stops",
+  args: {
+    value: 86,
+    arcSpan: 270,
+    gradient: {
+      stops: [
+        { offset: 0, color: "cyan" },
+        { offset: 0.5, color: "blue" },
+        { offset: 1, color: "fuchsia" },
+      ],
+    },
+    label: "Throughput",
+    strokeWidth: 14,
+  },
+};
+
+export const ThresholdGradient: Story = {
+  name: "Gradient from thresholds",
+  args: {
+    value: 88,
+    arcSpan: 240,
+    thresholds: [
+      { value: 0, color: "emerald" },
+      { value: 60, color: "amber" },
+      { value: 85, color: "pink" },
+    ],
+    gradient: "thresholds",
+    label: "CPU Load",
+    valueFormatter: (v: number) => `${v}%`,
+    strokeWidth: 14,
+  },
+};
+
 export const Arc270WithNeedle: Story = {
   name: "270-degree arc with needle",
   args: {
@@ -128,3 +198,447 @@ export const MinimalNoLabel: Story = {
     strokeWidth: 8,
   },
 };
+
+export const WithMarkers: Story = {
+  name: "Target markers",
+  args: {
+    value: 68,
+    label: "Quota",
+    valueFormatter: (v: number) => `${v}%`,
+    arcSpan: 240,
+    strokeWidth: 12,
+    showMinMax: true,
+    markers: [
+      { value: 90, label: "Target", style: "triangle" },
+      { value: 75, label: "SLA", color: "pink" },
+    ],
+  },
+};
+
+export const TickScale: Story = {
+  name: "Instrument scale (major + minor ticks)",
+  args: {
+    value: 4200,
+    max: 8000,
+    arcSpan: 270,
+    showNeedle: true,
+    label: "RPM",
+    tickCount: 4,
+    minorTicks: 4,
+    tickFormatter: (v: number) => `${v / 1000}`,
+    thresholds: [
+      { value: 0, color: "emerald" },
+      { value: 6500, color: "pink" },
+    ],
+    showThresholdArc: "bands",
+  },
+  argTypes: {
+    value: { control: { type: "range", min: 0, max: 8000, step: 100 } },
+    tickPlacement: { control: "select", options: ["inside", "outside"] },
+  },
+};
+
+export const QuarterCircle: Story = {
+  name: "Quarter circle (custom start angle)",
+  args: {
+    value: 64,
+    arcSpan: 90,
+    startAngle: 270,
+    color: "violet",
+    label: "Storage",
+    valueFormatter: (v: number) => `${v}%`,
+  },
+};
+
+export const TopOpening: Story = {
+  name: "Top-opening arc",
+  args: {
+    value: 48,
+    arcSpan: 240,
+    orientation: "top",
+    color: "cyan",
+    label: "Humidity",
+    valueFormatter: (v: number) => `${v}%`,
+    showMinMax: true,
+  },
+};
+
+export const ProgressRing: Story = {
+  name: "Full-circle progress ring",
+  args: {
+    value: 72,
+    arcSpan: 360,
+    color: "emerald",
+    label: "Completed",
+    valueFormatter: (v: number) => `${v}%`,
+    strokeWidth: 14,
+  },
+};
+
+export const Segmented: Story = {
+  name: "Segmented (LED blocks)",
+  args: {
+    value: 74,
+    variant: "segmented",
+    segmentCount: 16,
+    segmentGap: 3,
+    arcSpan: 240,
+    strokeWidth: 16,
+    label: "Level",
+    thresholds: [
+      { value: 0, color: "emerald" },
+      { value: 60, color: "amber" },
+      { value: 85, color: "pink" },
+    ],
+  },
+  argTypes: {
+    segmentCount: { control: { type: "range", min: 2, max: 40 } },
+    segmentGap: { control: { type: "range", min: 0, max: 10, step: 0.5 } },
+    segmentCap: { control: "select", options: ["square", "round"] },
+  },
+};
+
+export const Bipolar: Story = {
+  name: "Bipolar (fill from zero)",
+  args: {
+    value: -18,
+    min: -50,
+    max: 50,
+    origin: 0,
+    showNeedle: true,
+    showMinMax: true,
+    label: "Budget variance",
+    valueFormatter: (v: number) => `${v > 0 ? "+" : ""}${v}%`,
+    thresholds: [
+      { value: -50, color: "pink" },
+      { value: -10, color: "amber" },
+      { value: 0, color: "emerald" },
+    ],
+    showThresholdArc: "bands",
+  },
+  argTypes: {
+    value: { control: { type: "range", min: -50, max: 50 } },
+  },
+};
+
+export const Overflow: Story = {
+  name: "Over range (140% of quota)",
+  args: {
+    value: 140,
+    overflow: "lap",
+    label: "Quota",
+    color: "emerald",
+    showNeedle: false,
+    valueFormatter: (v: number) => `${v}%`,
+  },
+  argTypes: {
+    value: { control: { type: "range", min: -40, max: 200 } },
+    overflow: {
+      control: "select",
+      options: ["clamp", "cap", "lap", "peg"],
+    },
+  },
+};
+
+export const OverflowModes = () => (
+  <div className="grid grid-cols-2 gap-6">
+    {(["clamp", "cap", "lap", "peg"] as const).map((mode) => (
+      <GaugeChart
+        key={mode}
+        value={135}
+        overflow={mode}
+        showNeedle={mode === "peg"}
+        label={mode}
+        valueFormatter={(v) => `${v}%`}
+      />
+    ))}
+  </div>
+);
+OverflowModes.storyName = "Overflow modes";
+
+export const LowerIsBetter: Story = {
+  name: "Lower is better (inverted thresholds)",
+  args: {
+    value: 340,
+    max: 1000,
+    label: "P95 latency",
+    showNeedle: true,
+    invert: true,
+    valueFormatter: (v: number) => `${v} ms`,
+    thresholds: [
+      { value: 200, color: "emerald" },
+      { value: 500, color: "amber" },
+      { value: 1000, color: "pink" },
+    ],
+    showThresholdArc: "bands",
+  },
+  argTypes: {
+    value: { control: { type: "range", min: 0, max: 1000 } },
+  },
+};
+
+export const Counterclockwise: Story = {
+  name: "Counterclockwise",
+  args: {
+    value: 64,
+    direction: "counterclockwise",
+    showNeedle: true,
+    showMinMax: true,
+    label: "Right to left",
+  },
+};
+
+export const LogScale: Story = {
+  name: "Logarithmic scale (latency)",
+  args: {
+    value: 240,
+    min: 1,
+    max: 10000,
+    scale: "log",
+    tickCount: 4,
+    minorTicks: 8,
+    arcSpan: 240,
+    showNeedle: true,
+    label: "p99 latency",
+    valueFormatter: (v: number) => (v >= 1000 ? `${v / 1000}s` : `${v}ms`),
+    thresholds: [
+      { value: 1, color: "emerald" },
+      { value: 200, color: "amber" },
+      { value: 1000, color: "pink" },
+    ],
+    showThresholdArc: "bands",
+  },
+  argTypes: {
+    value: { control: { type: "range", min: 1, max: 10000 } },
+  },
+};
+
+export const PiecewiseScale: Story = {
+  name: "Piecewise-linear scale",
+  args: {
+    value: 80,
+    max: 1000,
+    scale: { domain: [0, 100, 1000], range: [0, 0.75, 1] },
+    ticks: [0, 25, 50, 75, 100, 500, 1000],
+    arcSpan: 240,
+    label: "Requests / s",
+  },
+};
+
+export const CustomLayers: Story = {
+  name: "Custom layers",
+  args: {
+    value: 64,
+    arcSpan: 240,
+    strokeWidth: 14,
+    label: "Throughput",
+    layers: [
+      {
+        // Shade last week's range behind the fill
+        position: "afterTrack",
+        render: ({ radius, strokeWidth, scale, getColor }) => {
+          const r = radius + strokeWidth / 2 + 4;
+          const from = scale.valueToPoint(40, r);
+          const to = scale.valueToPoint(72, r);
+          return (
+            <path
+              d={`M ${from.x} ${from.y} A ${r} ${r} 0 0 1 ${to.x} ${to.y}`}
+              fill="none"
+              stroke={getColor("violet")}
+              strokeWidth={3}
+              strokeLinecap="round"
+              opacity={0.6}
+            />
+          );
+        },
+      },
+    ],
+    renderLayer: ({ scale, fillColor }) => {
+      const p = scale.valueToPoint(64);
+      return (
+        <circle
+          cx={p.x}
+          cy={p.y}
+          r={4}
+          fill="white"
+          stroke={fillColor}
+          strokeWidth={2}
+        />
+      );
+    },
+  },
+};
+
+export const Interactive: Story = {
+  name: "Interactive (slider input)",
+  args: {
+    value: 40,
+    step: 5,
+    showNeedle: true,
+    arcSpan: 240,
+    label: "Volume",
+    valueFormatter: (v: number) => `${v}%`,
+  },
+  render: function Render(args) {
+    const [value, setValue] = useState(args.value);
+    return <GaugeChart {...args} value={value} onValueChange={setValue} />;
+  },
+};
+
+export const LiveUpdates: Story = {
+  args: {
+    value: 50,
+    showNeedle: true,
+    label: "Requests/s",
+    animationDuration: 800,
+    animationEasing: "ease-in-out",
+  },
+  argTypes: {
+    animationEasing: {
+      control: "select",
+      options: ["linear", "ease-in", "ease-out", "ease-in-out"],
+    },
+    animationDelay: { control: { type: "range", min: 0, max: 1000, step: 50 } },
+  },
+  render: function Render(args) {
+    const [value, setValue] = useState(args.value);
+    const [settled, setSettled] = useState(0);
+    useEffect(() => {
+      const id = setInterval(
+        () => setValue(Math.round(Math.random() * 100)),
+        2000,
+      );
+      return () => clearInterval(id);
+    }, []);
+    return (
+      <div className="flex flex-col items-center gap-2">
+        <GaugeChart
+          {...args}
+          value={value}
+          onAnimationEnd={() => setSettled((n) => n + 1)}
+        />
+        <p className="text-xs text-gray-500">Settled {settled} times</p>
+      </div>
+    );
+  },
+};
+
+export const NeedleMotion: Story = {
+  name: "Needle spring motion",
+  args: {
+    value: 3000,
+    max: 8000,
+    showNeedle: true,
+    needleMotion: "overshoot",
+    label: "RPM",
+  },
+  argTypes: {
+    needleMotion: {
+      control: "select",
+      options: ["tween", "damped", "overshoot", "snappy"],
+    },
+  },
+  render: function Render(args) {
+    const [value, setValue] = useState(args.value);
+    useEffect(() => {
+      // Jittery readings a few times a second, like an engine at idle
+      const id = setInterval(
+        () => setValue(Math.round(2500 + Math.random() * 3000)),
+        400,
+      );
+      return () => clearInterval(id);
+    }, []);
+    return <GaugeChart {...args} value={value} />;
+  },
+};
+
+export const PeakHold: Story = {
+  name: "Peak and low hold",
+  args: {
+    value: 30,
+    showNeedle: true,
+    label: "Queue depth",
+    animationDuration: 300,
+    hold: { window: 10000, trail: true },
+  },
+  render: function Render(args) {
+    const [value, setValue] = useState(args.value);
+    const holdRef = useRef<GaugeHoldHandle>(null);
+    useEffect(() => {
+      // Mostly steady, with the occasional short spike
+      const id = setInterval(
+        () =>
+          setValue(
+            Math.random() < 0.1
+              ? Math.round(75 + Math.random() * 25)
+              : Math.round(20 + Math.random() * 20),
+          ),
+        700,
+      );
+      return () => clearInterval(id);
+    }, []);
+    return (
+      <div className="flex flex-col items-center gap-2">
+        <GaugeChart {...args} value={value} holdRef={holdRef} />
+        <button
+          type="button"
+          className="rounded border border-gray-200 px-2 py-1 text-xs text-gray-600 dark:border-gray-800 dark:text-gray-400"
+          onClick={() => holdRef.current?.reset()}
+        >
+          Reset hold
+        </button>
+      </div>
+    );
+  },
+};
+
+export const Headless: Story = {
+  name: "Headless (useGauge)",
+  args: {
+    value: 68,
+    arcSpan: 270,
+    strokeWidth: 6,
+    tickCount: 10,
+    label: "Custom markup",
+  },
+  render: function Render(args) {
+    // Same geometry as GaugeChart, drawn as dotted ticks and a plain needle
+    const gauge = useGauge({ ...args, showAnimation: false });
+    return (
+      <svg {...gauge.svgProps} className="w-full">
+        {gauge.scaleTicks.map((t, i) => (
+          <circle
+            key={i}
+            cx={t.from.x}
+            cy={t.from.y}
+            r={t.major ? 2 : 1}
+            className={
+              t.value <= gauge.value
+                ? "fill-blue-500"
+                : "fill-gray-300 dark:fill-gray-700"
+            }
+          />
+        ))}
+        <line
+          x1={gauge.cx}
+          y1={gauge.cy}
+          x2={gauge.scale.valueToPoint(gauge.value, gauge.radius - 16).x}
+          y2={gauge.scale.valueToPoint(gauge.value, gauge.radius - 16).y}
+          className="stroke-gray-700 dark:stroke-gray-300"
+          strokeWidth={2}
+          strokeLinecap="round"
+        />
+        {gauge.secondaryLabel && (
+          <text
+            x={gauge.secondaryLabel.x}
+            y={gauge.secondaryLabel.y + 16}
+            textAnchor="middle"
+            className="fill-gray-500 text-xs"
+          >
+            {gauge.valueLabel?.text} · {gauge.secondaryLabel.text}
+          </text>
+        )}
+      </svg>
+    );
+  },
+};
@@ -1,6 +1,27 @@
-import { describe, it, expect } from "vitest";
-import { render, screen } from "@testing-library/react";
-import { GaugeChart } from "./GaugeChart";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  act,
+  render,
+  screen,
+  fireEvent,
+  within,
+} from "@testing-library/react";
+import { createRef } from "react";
+import { GaugeChart, type GaugeChartProps } from "./GaugeChart";
+import type { GaugeHoldHandle } from "../../utils/hold";
+import type { GaugeLayerContext } from "../../utils/layers";
+import { interpolateColor } from "../../utils/gradient";
+import { boxesOverlap, getTextBox } from "../../utils/labels";
+
+/** CSS angles (0° = 12 o'clock) of the first and last points of a path */
+function pathEndAngles(el: Element): [number, number] {
+  const n = el.getAttribute("d")!.match(/-?[\d.]+/g)!.map(Number);
+  const angle = (x: number, y: number) => {
+    const deg = (Math.atan2(x - 100, 100 - y) * 180) / Math.PI;
+    return (Math.round((deg + 360) * 10) / 10) % 360;
+  };
+  return [angle(n[0], n[1]), angle(n[n.length - 2], n[n.length - 1])];
+}
 
 describe("GaugeChart", () => {
   it("renders an SVG with role meter", () => {
@@ -25,7 +46,7 @@ describe("GaugeChart", () => {
   });
 
   it("displays the formatted value label by default", () => {
-    render(<GaugeChart value={75} />);
+    render(<GaugeChart value={75} showAnimation={false} />);
     expect(screen.getByText("75")).toBeInTheDocument();
   });
 
@@ -36,6 +57,7 @@ describe("GaugeChart", () => {
         min={0}
         max={1}
         valueFormatter={(v) => `${(v * 100).toFixed(0)}%`}
+        showAnimation={false}
       />,
     );
     expect(screen.getByText("85%")).toBeInTheDocument();
@@ -52,14 +74,29 @@ describe("GaugeChart", () => {
   });
 
   it("shows min/max labels when showMinMax is true", () => {
-    render(<GaugeChart value={50} min={0} max={100} showMinMax />);
+    render(
+      <GaugeChart
+        value={50}
+        min={0}
+        max={100}
+        showMinMax
+        showAnimation={false}
+      />,
+    );
     expect(screen.getByText("0")).toBeInTheDocument();
     expect(screen.getByText("100")).toBeInTheDocument();
   });
 
   it("shows min/max for non-180 arcs too", () => {
     render(
-      <GaugeChart value={50} min={0} max={100} showMinMax arcSpan={270} />,
+      <GaugeChart
+        value={50}
+        min={0}
+        max={100}
+        showMinMax
+        arcSpan={270}
+        showAnimation={false}
+      />,
     );
     expect(screen.getByText("0")).toBeInTheDocument();
     expect(screen.getByText("100")).toBeInTheDocument();
@@ -67,15 +104,14 @@ describe("GaugeChart", () => {
 
   it("renders the needle when showNeedle is true", () => {
     const { container } = render(<GaugeChart value={50} showNeedle />);
-    // Tapered needle is a <path>, hub is circles
-    const paths = container.querySelectorAll("path");
-    expect(paths.length).toBeGreaterThanOrEqual(1);
+    // Tapered needle is a shadowed <path>, hub is circles
+    expect(container.querySelectorAll("path[filter]")).toHaveLength(1);
   });
 
   it("does not render the needle by default", () => {
     const { container } = render(<GaugeChart value={50} />);
-    const paths = container.querySelectorAll("path");
-    expect(paths).toHaveLength(0);
+    expect(container.querySelectorAll("path[filter]")).toHaveLength(0);
+    expect(container.querySelectorAll("circle")).toHaveLength(0);
   });
 
   it("accepts custom className", () => {
@@ -90,10 +126,15 @@ describe("GaugeChart", () => {
     expect(ref.current).toBeInstanceOf(SVGSVGElement);
   });
 
-  it("renders two circle elements (track + fill) by default", () => {
-    const { container } = render(<GaugeChart value={50} />);
-    const circles = container.querySelectorAll("circle");
-    expect(circles.length).toBeGreaterThanOrEqual(2);
+  it("renders track and fill paths by default", () => {
+    const { container } = render(
+      <GaugeChart value={50} showAnimation={false} />,
+    );
+    const [track, fill] = container.querySelectorAll("path");
+    // 180° dial from 9 o'clock to 3 o'clock, filled halfway to 12 o'clock
+    expect(pathEndAngles(track)).toEqual([270, 90]);
+    expect(pathEndAngles(fill)).toEqual([270, 0]);
+    expect(fill).toHaveAttribute("data-testid", "fill");
   });
 
   // ── Threshold tests ─────────────────────────────────────────────
@@ -110,10 +151,8 @@ describe("GaugeChart", () => {
       />,
     );
     // value=75 falls in amber zone (>=60, <80)
-    const circles = container.querySelectorAll("circle");
-    // Last non-needle circle is the fill arc
-    const fillCircle = circles[1];
-    expect(fillCircle).toHaveAttribute("stroke", "#f59e0b"); // amber
+    const fill = container.querySelector("[data-testid='fill']");
+    expect(fill).toHaveAttribute("stroke", "#f59e0b"); // amber
   });
 
   it("uses highest matching threshold", () => {
@@ -127,9 +166,8 @@ describe("GaugeChart", () => {
         ]}
       />,
     );
-    const circles = container.querySelectorAll("circle");
-    const fillCircle = circles[1];
-    expect(fillCircle).toHaveAttribute("stroke", "#ec4899"); // pink
+    const fill = container.querySelector("[data-testid='fill']");
+    expect(fill).toHaveAttribute("stroke", "#ec4899"); // pink
   });
 
   it("renders threshold tick marks when showThresholdArc is true", () => {
@@ -161,37 +199,1270 @@ describe("GaugeChart", () => {
         showThresholdArc="bands"
       />,
     );
-    // gray base + 3 band circles + 1 fill circle = 5
-    const circles = container.querySelectorAll("circle");
-    expect(circles.length).toBeGreaterThanOrEqual(5);
+    // 3 filled band outlines over the track
+    const bands = container.querySelectorAll("path[fill-rule='evenodd']");
+    expect(bands).toHaveLength(3);
+    expect(bands[0]).toHaveAttribute("fill", "#10b981");
+  });
+
+  it("accepts custom CSS colors in thresholds", () => {
+    const { rerender } = render(
+      <GaugeChart
+        value={95}
+        thresholds={[
+          { value: 0, color: "--status-ok" },
+          { value: 90, color: "rgb(220 38 38)" },
+        ]}
+        showAnimation={false}
+      />,
+    );
+    expect(screen.getByTestId("fill")).toHaveAttribute(
+      "stroke",
+      "rgb(220 38 38)",
+    );
+    rerender(
+      <GaugeChart
+        value={50}
+        thresholds={[
+          { value: 0, color: "--status-ok" },
+          { value: 90, color: "rgb(220 38 38)" },
+        ]}
+        showAnimation={false}
+      />,
+    );
+    expect(screen.getByTestId("fill")).toHaveAttribute(
+      "stroke",
+      "var(--status-ok)",
+    );
+  });
+
+  it("blends threshold colors in interpolate mode", () => {
+    render(
+      <GaugeChart
+        value={30}
+        thresholds={[
+          { value: 0, color: "emerald" },
+          { value: 60, color: "amber" },
+          { value: 80, color: "pink" },
+        ]}
+        colorMode="interpolate"
+        showAnimation={false}
+      />,
+    );
+    // Halfway from emerald (0) to amber (60)
+    expect(screen.getByTestId("fill")).toHaveAttribute(
+      "stroke",
+      interpolateColor("#10b981", "#f59e0b", 0.5),
+    );
+  });
+
+  it("colors the fill with a custom getColor callback", () => {
+    const getColor = vi.fn((v: number) => (v > 50 ? "pink" : "#0ea5e9"));
+    const { rerender } = render(
+      <GaugeChart value={70} getColor={getColor} showAnimation={false} />,
+    );
+    expect(getColor).toHaveBeenCalledWith(70);
+    expect(screen.getByTestId("fill")).toHaveAttribute("stroke", "#ec4899");
+    rerender(
+      <GaugeChart value={20} getColor={getColor} showAnimation={false} />,
+    );
+    expect(screen.getByTestId("fill")).toHaveAttribute("stroke", "#0ea5e9");
+  });
+
+  it("colors segmented blocks with getColor", () => {
+    render(
+      <GaugeChart
+        value={100}
+        variant="segmented"
+        segmentCount={2}
+        getColor={(v) => (v < 50 ? "lime" : "violet")}
+        showAnimation={false}
+      />,
+    );
+    const blocks = screen.getByTestId("segments").querySelectorAll("path");
+    expect(blocks[0]).toHaveAttribute("stroke", "#84cc16");
+    expect(blocks[1]).toHaveAttribute("stroke", "#8b5cf6");
   });
 
   // ── Gradient tests ──────────────────────────────────────────────
 
-  it("renders a gradient definition when gradient prop is set", () => {
-    const { container } = render(
+  it("paints a gradient fill along the arc in slices", () => {
+    render(
       <GaugeChart
-        value={70}
+        value={100}
         gradient={{ from: "blue", to: "violet" }}
+        showAnimation={false}
+      />,
+    );
+    const slices = screen.getByTestId("fill").querySelectorAll("path");
+    expect(slices.length).toBeGreaterThan(10);
+    const colors = [...slices].map((p) => p.getAttribute("fill"));
+    expect(new Set(colors).size).toBeGreaterThan(10);
+    // Round caps (radius = half the 10px stroke) on the outer ends only
+    expect(slices[0].getAttribute("d")).toContain("A 5 5");
+    expect(slices[1].getAttribute("d")).not.toContain("A 5 5");
+    expect(slices[slices.length - 1].getAttribute("d")).toContain("A 5 5");
+  });
+
+  it("takes the fill color from the gradient at the value", () => {
+    const fillColor = (gradient: GaugeChartProps["gradient"]) => {
+      const renderSpy = vi.fn((_context: GaugeLayerContext) => null);
+      const { unmount } = render(
+        <GaugeChart
+          value={80}
+          gradient={gradient}
+          thresholds={[
+            { value: 0, color: "emerald" },
+            { value: 60, color: "amber" },
+            { value: 80, color: "pink" },
+          ]}
+          showAnimation={false}
+          renderLayer={renderSpy}
+        />,
+      );
+      unmount();
+      return renderSpy.mock.calls[0][0].fillColor;
+    };
+    expect(fillColor({ from: "emerald", to: "pink" })).toBe(
+      interpolateColor("#10b981", "#ec4899", 0.8),
+    );
+    expect(
+      fillColor({
+        stops: [
+          { offset: 0, color: "blue" },
+          { offset: 0.8, color: "cyan" },
+          { offset: 1, color: "pink" },
+        ],
+      }),
+    ).toBe("#06b6d4");
+    // Derived stops: pink sits at the 80 threshold
+    expect(fillColor("thresholds")).toBe("#ec4899");
+  });
+
+  it("falls back to a solid fill without threshold stops", () => {
+    render(
+      <GaugeChart value={50} gradient="thresholds" showAnimation={false} />,
+    );
+    expect(screen.getByTestId("fill")).toHaveAttribute("stroke", "#3b82f6");
+  });
+
+  // ── Interactive tests ───────────────────────────────────────────
+
+  it("renders as a slider when onValueChange is set", () => {
+    render(<GaugeChart value={40} onValueChange={() => {}} />);
+    const slider = screen.getByRole("slider");
+    expect(slider).toHaveAttribute("tabindex", "0");
+    expect(slider).toHaveAttribute("aria-valuenow", "40");
+    expect(slider).toHaveAttribute("aria-valuetext", "40");
+    expect(screen.queryByRole("meter")).not.toBeInTheDocument();
+  });
+
+  it("changes the value with arrow, page, home and end keys", () => {
+    const onChange = vi.fn();
+    render(<GaugeChart value={40} step={5} onValueChange={onChange} />);
+    const slider = screen.getByRole("slider");
+    fireEvent.keyDown(slider, { key: "ArrowRight" });
+    expect(onChange).toHaveBeenLastCalledWith(45);
+    fireEvent.keyDown(slider, { key: "ArrowDown" });
+    expect(onChange).toHaveBeenLastCalledWith(35);
+    fireEvent.keyDown(slider, { key: "PageUp" });
+    expect(onChange).toHaveBeenLastCalledWith(50);
+    fireEvent.keyDown(slider, { key: "Home" });
+    expect(onChange).toHaveBeenLastCalledWith(0);
+    fireEvent.keyDown(slider, { key: "End" });
+    expect(onChange).toHaveBeenLastCalledWith(100);
+  });
+
+  it("keeps the precision of tiny steps", () => {
+    const onChange = vi.fn();
+    render(
+      <GaugeChart
+        value={3e-7}
+        max={1e-6}
+        step={1e-7}
+        onValueChange={onChange}
+      />,
+    );
+    fireEvent.keyDown(screen.getByRole("slider"), { key: "ArrowRight" });
+    expect(onChange).toHaveBeenLastCalledWith(4e-7);
+  });
+
+  it("does not report a change past the range limits", () => {
+    const onChange = vi.fn();
+    render(<GaugeChart value={100} onValueChange={onChange} />);
+    fireEvent.keyDown(screen.getByRole("slider"), { key: "ArrowUp" });
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it("maps a pointer press on the arc to a value", () => {
+    const onChange = vi.fn();
+    render(<GaugeChart value={0} onValueChange={onChange} />);
+    const slider = screen.getByRole("slider");
+    // 180° arc: viewBox is 200 wide, center at (100, 100)
+    const height = Number(slider.getAttribute("viewBox")!.split(" ")[3]);
+    slider.getBoundingClientRect = () =>
+      ({ left: 0, top: 0, width: 200, height } as DOMRect);
+    // Straight above the center is the arc midpoint
+    fireEvent.pointerDown(slider, { button: 0, clientX: 100, clientY: 20 });
+    expect(onChange).toHaveBeenLastCalledWith(50);
+  });
+
+  it("ignores input when disabled", () => {
+    const onChange = vi.fn();
+    render(<GaugeChart value={40} disabled onValueChange={onChange} />);
+    const slider = screen.getByRole("slider");
+    expect(slider).toHaveAttribute("aria-disabled", "true");
+    expect(slider).not.toHaveAttribute("tabindex");
+    fireEvent.keyDown(slider, { key: "ArrowRight" });
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  // ── Marker tests ────────────────────────────────────────────────
+
+  it("renders a tick marker with its label", () => {
+    const { container } = render(
+      <GaugeChart value={50} markers={[{ value: 80, label: "Target" }]} />,
+    );
+    const marker = screen.getByTestId("marker-0");
+    expect(marker.querySelector("line")).not.toBeNull();
+    expect(screen.getByText("Target")).toBeInTheDocument();
+    // No threshold ticks, so the only line is the marker
+    expect(container.querySelectorAll("line")).toHaveLength(1);
+  });
+
+  it("renders triangle markers in the marker color", () => {
+    render(
+      <GaugeChart
+        value={50}
+        markers={[
+          { value: 70, style: "triangle", color: "pink" },
+          { value: 90, label: "SLA" },
+        ]}
+      />,
+    );
+    const triangle = screen.getByTestId("marker-0").querySelector("path");
+    expect(triangle).toHaveAttribute("fill", "#ec4899");
+    expect(screen.getByTestId("marker-1")).toBeInTheDocument();
+  });
+
+  it("grows the viewBox to fit marker labels above the arc", () => {
+    const { container } = render(
+      <GaugeChart value={50} markers={[{ value: 50, label: "Goal" }]} />,
+    );
+    const [x, y] = container
+      .querySelector("svg")!
+      .getAttribute("viewBox")!
+      .split(" ")
+      .map(Number);
+    expect(x).toBe(0);
+    expect(y).toBeLessThan(0);
+  });
+
+  it("keeps marker labels clear of the min/max labels", () => {
+    render(
+      <GaugeChart
+        value={50}
+        arcSpan={270}
+        showMinMax
+        markers={[{ value: 0, label: "Floor" }]}
+        showAnimation={false}
+      />,
+    );
+    const minLabel = screen.getByText("0");
+    const markerLabel = screen.getByText("Floor");
+    const at = (el: HTMLElement) =>
+      [Number(el.getAttribute("x")), Number(el.getAttribute("y"))] as const;
+    // Min label is an alphabetic-baseline 11px text, centered on x
+    const [minX, minY] = at(minLabel);
+    const minBox = getTextBox(minX, minY - 4, "0", 11, "middle");
+    const [labelX, labelY] = at(markerLabel);
+    const labelBox = getTextBox(labelX, labelY, "Floor", 10, "end");
+    expect(boxesOverlap(minBox, labelBox)).toBe(false);
+  });
+
+  // ── Tick scale tests ────────────────────────────────────────────
+
+  it("renders nice major ticks with labels for tickCount", () => {
+    render(<GaugeChart value={50} tickCount={5} showLabel={false} />);
+    const scale = screen.getByTestId("tick-scale");
+    expect(scale.querySelectorAll("line")).toHaveLength(6);
+    for (const v of ["0", "20", "40", "60", "80", "100"]) {
+      expect(screen.getByText(v)).toBeInTheDocument();
+    }
+  });
+
+  it("uses explicit ticks, minor ticks and tickFormatter", () => {
+    render(
+      <GaugeChart
+        value={3000}
+        max={8000}
+        ticks={[0, 4000, 8000]}
+        minorTicks={3}
+        tickFormatter={(v) => `${v / 1000}k`}
       />,
     );
-    const gradients = container.querySelectorAll("linearGradient");
-    expect(gradients).toHaveLength(1);
-    const stops = gradients[0].querySelectorAll("stop");
-    expect(stops).toHaveLength(2);
-    expect(stops[0]).toHaveAttribute("stop-color", "#3b82f6"); // blue
-    expect(stops[1]).toHaveAttribute("stop-color", "#8b5cf6"); // violet
+    const scale = screen.getByTestId("tick-scale");
+    // 3 majors + 3 minors in each of the 2 intervals
+    expect(scale.querySelectorAll("line")).toHaveLength(9);
+    expect(scale.querySelectorAll("text")).toHaveLength(3);
+    expect(screen.getByText("4k")).toBeInTheDocument();
+  });
+
+  it("grows the viewBox for tick labels outside the arc", () => {
+    const { container } = render(
+      <GaugeChart value={50} tickCount={4} tickPlacement="outside" />,
+    );
+    const [x, y] = container
+      .querySelector("svg")!
+      .getAttribute("viewBox")!
+      .split(" ")
+      .map(Number);
+    expect(x).toBeLessThan(0);
+    expect(y).toBeLessThan(0);
+  });
+
+  it("does not render a scale by default", () => {
+    render(<GaugeChart value={50} />);
+    expect(screen.queryByTestId("tick-scale")).not.toBeInTheDocument();
+  });
+
+  // ── Arc span & orientation tests ────────────────────────────────
+
+  it("sizes the viewBox to a quarter-circle arc", () => {
+    const { container } = render(
+      <GaugeChart value={50} arcSpan={90} startAngle={270} showLabel={false} />,
+    );
+    const [x, y, width, height] = container
+      .querySelector("svg")!
+      .getAttribute("viewBox")!
+      .split(" ")
+      .map(Number);
+    // Arc spans 9 to 12 o'clock: left half wide, top half tall
+    expect(x).toBe(0);
+    expect(y).toBe(0);
+    expect(width).toBeCloseTo(110);
+    expect(height).toBeCloseTo(110);
   });
 
-  it("uses gradient url as fill stroke", () => {
+  it("rotates the arc for a top-opening orientation", () => {
+    const { container } = render(
+      <GaugeChart value={50} orientation="top" />,
+    );
+    const track = container.querySelector("path")!;
+    // 180° arc from 3 o'clock around the bottom to 9 o'clock
+    expect(pathEndAngles(track)).toEqual([90, 270]);
+    const [, y] = container
+      .querySelector("svg")!
+      .getAttribute("viewBox")!
+      .split(" ")
+      .map(Number);
+    expect(y).toBeGreaterThan(0);
+  });
+
+  it("places min/max labels past both arc ends", () => {
+    render(
+      <GaugeChart
+        value={50}
+        orientation="left"
+        showMinMax
+        showAnimation={false}
+      />,
+    );
+    // Right half dial from 12 to 6 o'clock: the ends' tangents both point
+    // left, so each label sits beside its end, toward the opening
+    const minLabel = screen.getByText("0");
+    const maxLabel = screen.getByText("100");
+    expect(Number(minLabel.getAttribute("x"))).toBeLessThan(100);
+    expect(Number(minLabel.getAttribute("y"))).toBeCloseTo(10);
+    expect(Number(maxLabel.getAttribute("x"))).toBeLessThan(100);
+    expect(Number(maxLabel.getAttribute("y"))).toBeCloseTo(190);
+  });
+
+  // ── Direction & invert tests ────────────────────────────────────
+
+  it("fills counterclockwise from the right end", () => {
     const { container } = render(
       <GaugeChart
-        value={70}
-        gradient={{ from: "emerald", to: "cyan" }}
+        value={25}
+        direction="counterclockwise"
+        showAnimation={false}
       />,
     );
-    const circles = container.querySelectorAll("circle");
-    const fillCircle = circles[1];
-    expect(fillCircle.getAttribute("stroke")).toMatch(/^url\(#/);
+    const track = container.querySelector("path")!;
+    expect(pathEndAngles(track)).toEqual([270, 90]);
+    // A quarter of the 180° arc, back from 3 o'clock
+    expect(pathEndAngles(screen.getByTestId("fill"))).toEqual([45, 90]);
+  });
+
+  it("points the needle counterclockwise from min", () => {
+    const { container } = render(
+      <GaugeChart
+        value={25}
+        direction="counterclockwise"
+        showNeedle
+        showAnimation={false}
+      />,
+    );
+    const needle = container.querySelector("g[style*='rotate']")!;
+    expect(needle.getAttribute("style")).toContain("rotate(45deg)");
+  });
+
+  it("swaps the min/max labels for a counterclockwise arc", () => {
+    render(
+      <GaugeChart
+        value={50}
+        direction="counterclockwise"
+        showMinMax
+        showAnimation={false}
+      />,
+    );
+    expect(Number(screen.getByText("0").getAttribute("x"))).toBeGreaterThan(
+      100,
+    );
+    expect(Number(screen.getByText("100").getAttribute("x"))).toBeLessThan(
+      100,
+    );
+  });
+
+  it("resolves inverted thresholds for lower-is-better values", () => {
+    const thresholds = [
+      { value: 100, color: "emerald" as const },
+      { value: 300, color: "amber" as const },
+      { value: 500, color: "pink" as const },
+    ];
+    const stroke = (value: number) => {
+      const { unmount } = render(
+        <GaugeChart
+          value={value}
+          max={600}
+          thresholds={thresholds}
+          invert
+          showAnimation={false}
+        />,
+      );
+      const result = screen.getByTestId("fill").getAttribute("stroke");
+      unmount();
+      return result;
+    };
+    expect(stroke(50)).toBe("#10b981");
+    expect(stroke(100)).toBe("#10b981");
+    expect(stroke(200)).toBe("#f59e0b");
+    expect(stroke(450)).toBe("#ec4899");
+    // Past the last threshold stays in the worst zone
+    expect(stroke(580)).toBe("#ec4899");
+  });
+
+  it("draws inverted threshold bands ending at each threshold", () => {
+    const { container } = render(
+      <GaugeChart
+        value={50}
+        max={600}
+        thresholds={[
+          { value: 100, color: "emerald" },
+          { value: 300, color: "amber" },
+          { value: 600, color: "pink" },
+        ]}
+        invert
+        showThresholdArc="bands"
+      />,
+    );
+    const bands = container.querySelectorAll("path[fill-rule='evenodd']");
+    expect(bands).toHaveLength(3);
+    // emerald covers 0..100, starting at the arc's min end
+    expect(bands[0]).toHaveAttribute("fill", "#10b981");
+    expect(pathEndAngles(bands[0])[0]).toBe(270);
+  });
+
+  it("blends inverted thresholds at their own values", () => {
+    const thresholds = [
+      { value: 200, color: "emerald" as const },
+      { value: 500, color: "amber" as const },
+      { value: 2000, color: "pink" as const },
+    ];
+    const stroke = (value: number, invert: boolean) => {
+      const { unmount } = render(
+        <GaugeChart
+          value={value}
+          max={2000}
+          thresholds={thresholds}
+          colorMode="interpolate"
+          invert={invert}
+          showAnimation={false}
+        />,
+      );
+      const result = screen.getByTestId("fill").getAttribute("stroke");
+      unmount();
+      return result;
+    };
+    // At a threshold the blend is that zone's color, as in step mode
+    expect(stroke(500, true)).toBe("#f59e0b");
+    expect(stroke(350, true)).toBe(
+      interpolateColor("#10b981", "#f59e0b", 0.5),
+    );
+    expect(stroke(350, true)).toBe(stroke(350, false));
+  });
+
+  it("paints the last inverted band up to max", () => {
+    const { container } = render(
+      <GaugeChart
+        value={2500}
+        max={3000}
+        thresholds={[
+          { value: 200, color: "emerald" },
+          { value: 500, color: "amber" },
+          { value: 2000, color: "pink" },
+        ]}
+        invert
+        showThresholdArc="bands"
+        showAnimation={false}
+      />,
+    );
+    expect(screen.getByTestId("fill")).toHaveAttribute("stroke", "#ec4899");
+    const bands = container.querySelectorAll("path[fill-rule='evenodd']");
+    expect(bands).toHaveLength(3);
+    // pink covers (500, 2000] and everything past it, up to 3 o'clock
+    expect(bands[2]).toHaveAttribute("fill", "#ec4899");
+    expect(pathEndAngles(bands[2])[0]).toBe(300);
+    const [x, y] = bands[2]
+      .getAttribute("d")!
+      .match(/-?[\d.]+/g)!
+      .map(Number)
+      .slice(7, 9);
+    expect(y).toBeCloseTo(100);
+    expect(x).toBeGreaterThan(100);
+  });
+
+  // ── Ring mode tests ─────────────────────────────────────────────
+
+  it("draws a closed ring starting at 12 o'clock for arcSpan 360", () => {
+    const { container } = render(
+      <GaugeChart value={40} arcSpan={360} showAnimation={false} />,
+    );
+    const [track, fill] = container.querySelectorAll("path");
+    expect(track).toHaveAttribute("stroke-linecap", "butt");
+    expect(pathEndAngles(track)).toEqual([0, 0]);
+    expect(fill).toHaveAttribute("stroke-linecap", "round");
+  });
+
+  it("closes the fill seamlessly at 100% in ring mode", () => {
+    const { container } = render(
+      <GaugeChart value={100} arcSpan={360} showAnimation={false} />,
+    );
+    const fill = container.querySelectorAll("path")[1];
+    expect(fill).toHaveAttribute("stroke-linecap", "butt");
+    // A closed circle: two half arcs back to the start
+    expect(fill.getAttribute("d")!.match(/A/g)).toHaveLength(2);
+  });
+
+  it("centers the label in a ring", () => {
+    render(<GaugeChart value={40} arcSpan={360} showAnimation={false} />);
+    expect(screen.getByText("40")).toHaveAttribute("y", "100");
+  });
+
+  it("starts the ring fill at a custom angle", () => {
+    const { container } = render(
+      <GaugeChart
+        value={40}
+        arcSpan={360}
+        startAngle={90}
+        showAnimation={false}
+      />,
+    );
+    const fill = container.querySelectorAll("path")[1];
+    expect(pathEndAngles(fill)).toEqual([90, 234]);
+  });
+
+  // ── Segmented variant tests ─────────────────────────────────────
+
+  it("renders one block per segment and lights blocks up to the value", () => {
+    render(
+      <GaugeChart
+        value={42}
+        variant="segmented"
+        segmentCount={10}
+        showAnimation={false}
+      />,
+    );
+    const blocks = screen.getByTestId("segments").querySelectorAll("path");
+    expect(blocks).toHaveLength(10);
+    // 42% lights blocks whose midpoints (5%, 15%, 25%, 35%) are reached
+    const lit = screen
+      .getByTestId("segments")
+      .querySelectorAll("[data-lit='true']");
+    expect(lit).toHaveLength(4);
+  });
+
+  it("colors each block by its threshold zone", () => {
+    render(
+      <GaugeChart
+        value={100}
+        variant="segmented"
+        segmentCount={5}
+        thresholds={[
+          { value: 0, color: "emerald" },
+          { value: 60, color: "amber" },
+          { value: 80, color: "pink" },
+        ]}
+        showAnimation={false}
+      />,
+    );
+    const blocks = screen.getByTestId("segments").querySelectorAll("path");
+    // Block midpoints: 10, 30, 50, 70, 90
+    expect(blocks[0]).toHaveAttribute("stroke", "#10b981");
+    expect(blocks[2]).toHaveAttribute("stroke", "#10b981");
+    expect(blocks[3]).toHaveAttribute("stroke", "#f59e0b");
+    expect(blocks[4]).toHaveAttribute("stroke", "#ec4899");
+  });
+
+  it("uses the cap style for block ends", () => {
+    render(
+      <GaugeChart value={50} variant="segmented" segmentCap="round" />,
+    );
+    const block = screen.getByTestId("segments").querySelector("path");
+    expect(block).toHaveAttribute("stroke-linecap", "round");
+  });
+
+  it("does not draw the continuous track and fill when segmented", () => {
+    const { container } = render(
+      <GaugeChart value={50} variant="segmented" segmentCount={6} />,
+    );
+    expect(container.querySelectorAll("path")).toHaveLength(6);
+  });
+
+  // ── Origin (bipolar) tests ──────────────────────────────────────
+
+  it("fills from the origin toward a negative value", () => {
+    render(
+      <GaugeChart
+        value={-25}
+        min={-50}
+        max={50}
+        origin={0}
+        showAnimation={false}
+      />,
+    );
+    const fill = screen.getByTestId("fill");
+    // -25..0 runs from a quarter of the way in (10:30) up to 12 o'clock
+    expect(pathEndAngles(fill)).toEqual([315, 0]);
+  });
+
+  it("fills from the origin toward a positive value", () => {
+    render(
+      <GaugeChart
+        value={20}
+        min={-50}
+        max={50}
+        origin={0}
+        showAnimation={false}
+      />,
+    );
+    const fill = screen.getByTestId("fill");
+    // 0..20 is a fifth of the 180° arc, starting at 12 o'clock
+    expect(pathEndAngles(fill)).toEqual([0, 36]);
+  });
+
+  it("draws an origin tick inside the range", () => {
+    render(<GaugeChart value={10} min={-50} max={50} origin={0} />);
+    expect(screen.getByTestId("origin-tick")).toBeInTheDocument();
+  });
+
+  it("resolves thresholds outward from the origin", () => {
+    const thresholds = [
+      { value: -40, color: "pink" as const },
+      { value: -10, color: "amber" as const },
+      { value: 0, color: "emerald" as const },
+      { value: 30, color: "violet" as const },
+    ];
+    const stroke = (value: number) => {
+      const { container, unmount } = render(
+        <GaugeChart
+          value={value}
+          min={-50}
+          max={50}
+          origin={0}
+          thresholds={thresholds}
+        />,
+      );
+      const result = container
+        .querySelector("[data-testid='fill']")!
+        .getAttribute("stroke");
+      unmount();
+      return result;
+    };
+    expect(stroke(-5)).toBe("#10b981");
+    expect(stroke(-20)).toBe("#f59e0b");
+    expect(stroke(-45)).toBe("#ec4899");
+    expect(stroke(35)).toBe("#8b5cf6");
+  });
+
+  it("draws threshold bands mirrored around the origin", () => {
+    const { container } = render(
+      <GaugeChart
+        value={0}
+        min={-50}
+        max={50}
+        origin={0}
+        thresholds={[
+          { value: -20, color: "amber" },
+          { value: 20, color: "amber" },
+        ]}
+        showThresholdArc="bands"
+      />,
+    );
+    const bands = container.querySelectorAll("path[fill='#f59e0b']");
+    expect(bands).toHaveLength(2);
+    // Below the origin: -50..-20; above: 20..50
+    expect(pathEndAngles(bands[0])[0]).toBe(270);
+    expect(pathEndAngles(bands[1])[0]).toBe(36);
+  });
+
+  it("runs the gradient outward from the origin", () => {
+    const renderSpy = vi.fn((_context: GaugeLayerContext) => null);
+    render(
+      <GaugeChart
+        value={-30}
+        min={-50}
+        max={50}
+        origin={0}
+        gradient={{ from: "emerald", to: "pink" }}
+        showAnimation={false}
+        renderLayer={renderSpy}
+      />,
+    );
+    const slices = screen.getByTestId("fill").querySelectorAll("path");
+    // The 2° slice at the origin is (nearly) the `from` color: its middle
+    // lies 1° of the 90° toward min away
+    const atOrigin = slices[slices.length - 1].getAttribute("fill");
+    expect(atOrigin).toBe(interpolateColor("#10b981", "#ec4899", 1 / 90));
+    // -30 is 60% of the way from the origin to min
+    expect(renderSpy.mock.calls[0][0].fillColor).toBe(
+      interpolateColor("#10b981", "#ec4899", 0.6),
+    );
+  });
+
+  it("lights segmented blocks between the origin and the value", () => {
+    render(
+      <GaugeChart
+        value={-30}
+        min={-50}
+        max={50}
+        origin={0}
+        variant="segmented"
+        segmentCount={10}
+        showAnimation={false}
+      />,
+    );
+    const blocks = screen.getByTestId("segments").querySelectorAll("path");
+    // Midpoints -25 and -15 and -5 lie between -30 and 0
+    const lit = [...blocks].map((b) => b.getAttribute("data-lit") === "true");
+    expect(lit.map((on, i) => (on ? i : -1)).filter((i) => i >= 0)).toEqual([
+      2, 3, 4,
+    ]);
+  });
+
+  // ── Scale tests ─────────────────────────────────────────────────
+
+  it("positions the fill on a log scale", () => {
+    render(
+      <GaugeChart
+        value={100}
+        min={1}
+        max={10000}
+        scale="log"
+        showAnimation={false}
+      />,
+    );
+    const fill = screen.getByTestId("fill");
+    // 100 is two of four decades in
+    expect(pathEndAngles(fill)).toEqual([270, 0]);
+  });
+
+  it("draws power-of-ten ticks on a log scale", () => {
+    render(
+      <GaugeChart value={100} min={1} max={10000} scale="log" tickCount={4} />,
+    );
+    const scale = screen.getByTestId("tick-scale");
+    for (const v of ["1", "10", "100", "1000", "10000"]) {
+      expect(within(scale).getByText(v)).toBeInTheDocument();
+    }
+  });
+
+  it("follows a piecewise scale for fill and threshold bands", () => {
+    const { container } = render(
+      <GaugeChart
+        value={100}
+        max={1000}
+        scale={{ domain: [0, 100, 1000], range: [0, 0.75, 1] }}
+        thresholds={[
+          { value: 0, color: "emerald" },
+          { value: 100, color: "pink" },
+        ]}
+        showThresholdArc="bands"
+        showAnimation={false}
+      />,
+    );
+    const band = container.querySelector("path[fill='#ec4899']")!;
+    // Three quarters of the 180° arc in
+    expect(pathEndAngles(band)[0]).toBe(45);
+  });
+
+  it("pages through a tenth of the arc on a log scale", () => {
+    const onValueChange = vi.fn();
+    render(
+      <GaugeChart
+        value={1}
+        min={1}
+        max={10000}
+        scale="log"
+        onValueChange={onValueChange}
+      />,
+    );
+    const slider = screen.getByRole("slider");
+    fireEvent.keyDown(slider, { key: "PageUp" });
+    // A tenth of the arc: 10^0.4 ≈ 2.5, snapped to the step
+    expect(onValueChange).toHaveBeenLastCalledWith(3);
+  });
+
+  // ── Custom layer tests ──────────────────────────────────────────
+
+  it("renders custom layers at their stacking positions", () => {
+    const { container } = render(
+      <GaugeChart
+        value={50}
+        showNeedle
+        layers={[
+          {
+            position: "beforeTrack",
+            render: () => <rect data-testid="under" />,
+          },
+          {
+            position: "afterFill",
+            render: () => <rect data-testid="over-fill" />,
+          },
+        ]}
+        renderLayer={() => <rect data-testid="top" />}
+      />,
+    );
+    const svg = container.querySelector("svg")!;
+    const children = [...svg.children];
+    const indexOf = (el: Element) => children.indexOf(el);
+    const [track] = container.querySelectorAll("path");
+    expect(indexOf(screen.getByTestId("under"))).toBeLessThan(indexOf(track));
+    expect(indexOf(screen.getByTestId("over-fill"))).toBeGreaterThan(
+      indexOf(track),
+    );
+    // The foreground layer is the last element in the SVG
+    expect(svg.lastElementChild).toBe(screen.getByTestId("top"));
+  });
+
+  it("passes gauge geometry and scale to layers", () => {
+    const renderSpy = vi.fn((_context: GaugeLayerContext) => null);
+    render(
+      <GaugeChart
+        value={30}
+        color="violet"
+        arcSpan={240}
+        strokeWidth={20}
+        renderLayer={renderSpy}
+      />,
+    );
+    const context = renderSpy.mock.calls[0][0];
+    expect(context).toMatchObject({
+      cx: 100,
+      cy: 100,
+      radius: 80,
+      strokeWidth: 20,
+      value: 30,
+      fillColor: "#8b5cf6",
+    });
+    expect(context.scale.valueToAngle(50)).toBe(360);
+    expect(context.scale.valueToPoint(50).y).toBeCloseTo(20);
+    expect(context.getColor("pink")).toBe("#ec4899");
+  });
+});
+
+describe("GaugeChart animation", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({
+      toFake: ["requestAnimationFrame", "cancelAnimationFrame"],
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const needleAngle = (container: HTMLElement) => {
+    const needle = container.querySelector("g[style*='rotate']")!;
+    const style = needle.getAttribute("style")!;
+    return Number(/rotate\(([-\d.]+)deg\)/.exec(style)![1]);
+  };
+
+  it("counts the label along with the arc and needle", () => {
+    const { container } = render(
+      <GaugeChart value={80} showNeedle animationEasing="linear" />,
+    );
+    expect(screen.getByText("0")).toBeInTheDocument();
+    act(() => {
+      vi.advanceTimersByTime(16);
+    });
+    act(() => {
+      vi.advanceTimersByTime(500);
+    });
+    const shown = Number(container.querySelector("text")!.textContent);
+    expect(shown).toBeGreaterThan(30);
+    expect(shown).toBeLessThan(50);
+    expect(Number.isInteger(shown)).toBe(true);
+    // 180° arc from 270°: the needle points at the displayed value, give
+    // or take the label's rounding to whole numbers
+    const expected = 270 + (shown / 100) * 180;
+    expect(Math.abs(needleAngle(container) - expected)).toBeLessThan(1);
+    act(() => {
+      vi.advanceTimersByTime(600);
+    });
+    expect(screen.getByText("80")).toBeInTheDocument();
+    expect(needleAngle(container)).toBeCloseTo(270 + 0.8 * 180);
+  });
+
+  it("counts from the current value when the value changes", () => {
+    const { rerender } = render(
+      <GaugeChart value={20} showAnimation={false} />,
+    );
+    rerender(<GaugeChart value={60} animationDuration={400} />);
+    expect(screen.getByText("20")).toBeInTheDocument();
+    act(() => {
+      vi.advanceTimersByTime(16);
+    });
+    act(() => {
+      vi.advanceTimersByTime(200);
+    });
+    expect(screen.queryByText("20")).not.toBeInTheDocument();
+    expect(screen.queryByText("60")).not.toBeInTheDocument();
+    act(() => {
+      vi.advanceTimersByTime(400);
+    });
+    expect(screen.getByText("60")).toBeInTheDocument();
+  });
+
+  it("waits for animationDelay and reports start and end", () => {
+    const onAnimationStart = vi.fn();
+    const onAnimationEnd = vi.fn();
+    render(
+      <GaugeChart
+        value={50}
+        animationDuration={300}
+        animationDelay={200}
+        onAnimationStart={onAnimationStart}
+        onAnimationEnd={onAnimationEnd}
+      />,
+    );
+    act(() => {
+      vi.advanceTimersByTime(150);
+    });
+    expect(screen.getByText("0")).toBeInTheDocument();
+    expect(onAnimationStart).not.toHaveBeenCalled();
+    act(() => {
+      vi.advanceTimersByTime(200);
+    });
+    expect(onAnimationStart).toHaveBeenCalledTimes(1);
+    expect(onAnimationEnd).not.toHaveBeenCalled();
+    act(() => {
+      vi.advanceTimersByTime(300);
+    });
+    expect(screen.getByText("50")).toBeInTheDocument();
+    expect(onAnimationEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it("counts the label past max while the lap animates", () => {
+    const { container } = render(
+      <GaugeChart value={135} overflow="lap" animationEasing="linear" />,
+    );
+    act(() => {
+      vi.advanceTimersByTime(16);
+    });
+    act(() => {
+      vi.advanceTimersByTime(850);
+    });
+    // The fill stops at 100, but the label counts on toward 135
+    const shown = Number(container.querySelector("text")!.textContent);
+    expect(shown).toBeGreaterThan(100);
+    expect(shown).toBeLessThan(135);
+    act(() => {
+      vi.advanceTimersByTime(500);
+    });
+    expect(screen.getByText("135")).toBeInTheDocument();
+  });
+
+  it("swings the needle past the value with needleMotion overshoot", () => {
+    const { container } = render(
+      <GaugeChart value={50} showNeedle needleMotion="overshoot" />,
+    );
+    const target = 270 + 0.5 * 180;
+    let furthest = needleAngle(container);
+    expect(furthest).toBe(270);
+    for (let i = 0; i < 120; i++) {
+      act(() => {
+        vi.advanceTimersByTime(16);
+      });
+      furthest = Math.max(furthest, needleAngle(container));
+    }
+    expect(furthest).toBeGreaterThan(target + 5);
+    expect(needleAngle(container)).toBeCloseTo(target);
+  });
+
+  it("keeps the needle on the tween by default", () => {
+    const { container } = render(
+      <GaugeChart value={50} showNeedle animationDuration={300} />,
+    );
+    let furthest = 0;
+    for (let i = 0; i < 40; i++) {
+      act(() => {
+        vi.advanceTimersByTime(16);
+      });
+      furthest = Math.max(furthest, needleAngle(container));
+    }
+    expect(furthest).toBeCloseTo(270 + 0.5 * 180);
+  });
+
+  it("keeps the real value in the ARIA attributes while counting", () => {
+    render(<GaugeChart value={70} label="Load" />);
+    const meter = screen.getByRole("meter");
+    expect(meter).toHaveAttribute("aria-valuenow", "70");
+    expect(meter).toHaveAttribute("aria-label", "Load: 70");
+  });
+});
+
+describe("GaugeChart hold", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({
+      toFake: [
+        "Date",
+        "setTimeout",
+        "clearTimeout",
+        "requestAnimationFrame",
+        "cancelAnimationFrame",
+      ],
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** Rotation of a hold mark; 180° arc from 270°, so value v sits at 270 + 1.8v */
+  const markAngle = (key: "max" | "min") => {
+    const style = screen.getByTestId(`hold-${key}`).getAttribute("style")!;
+    return Number(/rotate\(([-\d.]+)deg\)/.exec(style)![1]);
+  };
+
+  const reading = (
+    rerender: (ui: React.ReactElement) => void,
+    value: number,
+    props: Partial<GaugeChartProps> = {},
+  ) => {
+    rerender(<GaugeChart value={value} showAnimation={false} {...props} />);
+    act(() => {
+      vi.advanceTimersByTime(500);
+    });
+  };
+
+  it("draws no hold marks unless asked", () => {
+    render(<GaugeChart value={40} showAnimation={false} />);
+    expect(screen.queryByTestId("hold-max")).not.toBeInTheDocument();
+  });
+
+  it("holds the peak and low of a spiking value", () => {
+    const props = { hold: true };
+    const { rerender } = render(
+      <GaugeChart value={40} showAnimation={false} {...props} />,
+    );
+    reading(rerender, 95, props);
+    reading(rerender, 10, props);
+    reading(rerender, 50, props);
+    expect(markAngle("max")).toBeCloseTo(270 + 95 * 1.8);
+    expect(markAngle("min")).toBeCloseTo(270 + 10 * 1.8);
+  });
+
+  it("holds only the extremes it is asked for", () => {
+    render(
+      <GaugeChart value={40} showAnimation={false} hold={{ min: false }} />,
+    );
+    expect(screen.getByTestId("hold-max")).toBeInTheDocument();
+    expect(screen.queryByTestId("hold-min")).not.toBeInTheDocument();
+  });
+
+  it("lets a held peak decay back to the live value", () => {
+    const props = { hold: { decay: 2000 } };
+    const { rerender } = render(
+      <GaugeChart value={40} showAnimation={false} {...props} />,
+    );
+    reading(rerender, 90, props);
+    reading(rerender, 30, props);
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(markAngle("max")).toBeCloseTo(270 + 90 * 1.8);
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(markAngle("max")).toBeCloseTo(270 + 30 * 1.8);
+  });
+
+  it("drops a spike once it leaves the rolling window", () => {
+    const props = { hold: { window: 3000 } };
+    const { rerender } = render(
+      <GaugeChart value={40} showAnimation={false} {...props} />,
+    );
+    reading(rerender, 90, props);
+    reading(rerender, 60, props);
+    reading(rerender, 20, props);
+    act(() => {
+      vi.advanceTimersByTime(2100);
+    });
+    // At 3600ms: 90 (left at 500ms) is out of the window, 60 (left at
+    // 1000ms) isn't yet
+    expect(markAngle("max")).toBeCloseTo(270 + 60 * 1.8);
+    act(() => {
+      vi.advanceTimersByTime(500);
+    });
+    expect(markAngle("max")).toBeCloseTo(270 + 20 * 1.8);
+  });
+
+  it("resets held values through holdRef", () => {
+    const holdRef = createRef<GaugeHoldHandle>();
+    const props = { hold: true, holdRef };
+    const { rerender } = render(
+      <GaugeChart value={40} showAnimation={false} {...props} />,
+    );
+    reading(rerender, 90, props);
+    reading(rerender, 50, props);
+    expect(markAngle("max")).toBeCloseTo(270 + 90 * 1.8);
+    act(() => holdRef.current!.reset());
+    expect(markAngle("max")).toBeCloseTo(270 + 50 * 1.8);
+    expect(markAngle("min")).toBeCloseTo(270 + 50 * 1.8);
+  });
+
+  it("leaves a fading trail of ghost needles", () => {
+    const props = { hold: { trail: 1000 }, showNeedle: true };
+    const { rerender } = render(
+      <GaugeChart value={40} showAnimation={false} {...props} />,
+    );
+    expect(screen.queryByTestId("hold-trail")).not.toBeInTheDocument();
+    rerender(<GaugeChart value={70} showAnimation={false} {...props} />);
+    act(() => {
+      vi.advanceTimersByTime(250);
+    });
+    const ghost = screen.getByTestId("hold-trail").querySelector("line")!;
+    expect(ghost).toHaveAttribute("transform", "rotate(342 100 100)");
+    const opacity = Number(ghost.getAttribute("stroke-opacity"));
+    act(() => {
+      vi.advanceTimersByTime(500);
+    });
+    expect(
+      Number(
+        screen
+          .getByTestId("hold-trail")
+          .querySelector("line")!
+          .getAttribute("stroke-opacity"),
+      ),
+    ).toBeLessThan(opacity);
+    act(() => {
+      vi.advanceTimersByTime(500);
+    });
+    expect(screen.queryByTestId("hold-trail")).not.toBeInTheDocument();
+  });
+});
+
+describe("GaugeChart overflow", () => {
+  const needleRotation = (container: HTMLElement) => {
+    const style = container
+      .querySelector("g[style*='rotate']")!
+      .getAttribute("style")!;
+    return Number(/rotate\(([-\d.]+)deg\)/.exec(style)![1]);
+  };
+
+  it("clamps the arc but labels the raw value by default", () => {
+    render(<GaugeChart value={140} showAnimation={false} />);
+    expect(screen.getByText("140")).toBeInTheDocument();
+    expect(pathEndAngles(screen.getByTestId("fill"))).toEqual([270, 90]);
+    expect(screen.queryByTestId("overflow-cap")).not.toBeInTheDocument();
+  });
+
+  it("caps the end the value passed", () => {
+    const { rerender } = render(
+      <GaugeChart value={140} overflow="cap" showAnimation={false} />,
+    );
+    const cap = screen.getByTestId("overflow-cap");
+    expect(cap).toHaveAttribute("fill", "#ef4444");
+    expect(pathEndAngles(cap)[0]).toBeCloseTo(82);
+    rerender(
+      <GaugeChart
+        value={-20}
+        overflow="cap"
+        overflowColor="amber"
+        showAnimation={false}
+      />,
+    );
+    expect(screen.getByTestId("overflow-cap")).toHaveAttribute(
+      "fill",
+      "#f59e0b",
+    );
+    expect(pathEndAngles(screen.getByTestId("overflow-cap"))[0]).toBe(270);
+    rerender(<GaugeChart value={60} overflow="cap" showAnimation={false} />);
+    expect(screen.queryByTestId("overflow-cap")).not.toBeInTheDocument();
+  });
+
+  it("runs the excess over max as a second lap", () => {
+    render(<GaugeChart value={135} overflow="lap" showAnimation={false} />);
+    const lap = screen.getByTestId("overflow-lap");
+    expect(lap).toHaveAttribute("stroke", "#ef4444");
+    expect(lap).toHaveAttribute("stroke-width", "5");
+    expect(pathEndAngles(lap)).toEqual([270, 270 + 0.35 * 180]);
+    expect(screen.getByText("135")).toBeInTheDocument();
+  });
+
+  it("pegs the needle past the end against a stop pin", () => {
+    const { container, rerender } = render(
+      <GaugeChart value={150} overflow="peg" showNeedle showAnimation={false} />,
+    );
+    expect(needleRotation(container)).toBe(270 + 180 + 4);
+    expect(screen.getByTestId("stop-pin")).toHaveAttribute("fill", "#ef4444");
+    expect(container.querySelectorAll("[fill='#ef4444']").length).toBe(3);
+    rerender(
+      <GaugeChart value={-5} overflow="peg" showNeedle showAnimation={false} />,
+    );
+    expect(needleRotation(container)).toBe(270 - 4);
+    rerender(
+      <GaugeChart value={50} overflow="peg" showNeedle showAnimation={false} />,
+    );
+    expect(needleRotation(container)).toBe(360);
+    expect(screen.queryByTestId("stop-pin")).not.toBeInTheDocument();
+  });
+
+  it("colors the fill when pegged without a needle", () => {
+    render(<GaugeChart value={150} overflow="peg" showAnimation={false} />);
+    expect(screen.getByTestId("fill")).toHaveAttribute("stroke", "#ef4444");
+  });
+
+  it("calls onOutOfRange when the value leaves the range", () => {
+    const onOutOfRange = vi.fn();
+    const gauge = (value: number) => (
+      <GaugeChart
+        value={value}
+        onOutOfRange={onOutOfRange}
+        showAnimation={false}
+      />
+    );
+    const { rerender } = render(gauge(50));
+    expect(onOutOfRange).not.toHaveBeenCalled();
+    rerender(gauge(120));
+    rerender(gauge(130));
+    expect(onOutOfRange).toHaveBeenCalledTimes(1);
+    expect(onOutOfRange).toHaveBeenLastCalledWith(120, "over");
+    rerender(gauge(-10));
+    expect(onOutOfRange).toHaveBeenLastCalledWith(-10, "under");
+    rerender(gauge(40));
+    rerender(gauge(100));
+    expect(onOutOfRange).toHaveBeenCalledTimes(2);
   });
 });
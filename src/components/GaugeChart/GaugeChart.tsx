@@ -1,289 +1,108 @@
 "use client";
 
-import React, { useId, useState, useLayoutEffect } from "react";
+import React from "react";
 import { cx } from "../../utils/cx";
-import { type Color, getColorValue } from "../../utils/chartColors";
-import { getArcDash, getNeedleAngle, getSegmentArcs, degToRad } from "../../utils/arc";
+import { getColorValue } from "../../utils/chartColors";
+import { getMarkerShape } from "../../utils/markers";
+import { getClassNames } from "../../utils/styling";
+import {
+  type GaugeLayer,
+  type GaugeLayerContext,
+  type GaugeLayerPosition,
+  getLayersAt,
+} from "../../utils/layers";
+import type { GaugeThreshold } from "../../utils/thresholds";
+import { type UseGaugeOptions, useGauge } from "../../hooks/useGauge";
+import {
+  themeColorProps,
+  useGaugeTheme,
+} from "../GaugeThemeProvider/GaugeThemeProvider";
 
-export interface GaugeThreshold {
-  /** Value at which this zone starts */
-  value: number;
-  /** Color for this zone */
-  color: Color;
-}
+export type { GaugeThreshold };
 
-export interface GaugeChartProps {
-  /** Current value */
-  value: number;
-  /** Minimum value (default: 0) */
-  min?: number;
-  /** Maximum value (default: 100) */
-  max?: number;
-  /** Color token from Tremor palette (used when thresholds are not set) */
-  color?: Color;
+/** See `UseGaugeOptions` for the gauge options shared with `useGauge` */
+export interface GaugeChartProps extends UseGaugeOptions {
   /**
-   * Value-based color thresholds. Each entry defines a zone starting at
-   * `value`. The fill arc color changes based on the highest threshold
-   * the current value has reached.
+   * Custom SVG drawn inside the gauge, each at a stacking position relative
+   * to the track, fill and needle. Layers receive the gauge's geometry and
+   * scale, so overlays line up with the arc.
    *
    * @example
-   * thresholds={[
-   *   { value: 0,  color: "emerald" },
-   *   { value: 60, color: "amber" },
-   *   { value: 80, color: "pink" },
-   * ]}
-   */
-  thresholds?: GaugeThreshold[];
-  /**
-   * How to visualize threshold zones on the background track.
-   * - `"bands"` — colored arc segments behind the fill (default when showThresholdArc is true)
-   * - `"ticks"` — thin tick marks at each threshold boundary
-   * - `false` / not set — plain gray track
-   */
-  showThresholdArc?: boolean | "bands" | "ticks";
-  /**
-   * Apply a gradient to the fill arc. Provide two color tokens.
+   * layers={[{
+   *   position: "afterTrack",
+   *   render: ({ scale }) => {
+   *     const p = scale.valueToPoint(75);
+   *     return <circle cx={p.x} cy={p.y} r={3} />;
+   *   },
+   * }]}
    */
-  gradient?: { from: Color; to: Color };
-  /** Format the displayed center value */
-  valueFormatter?: (value: number) => string;
-  /** Show the center value label (default: true) */
-  showLabel?: boolean;
-  /** Secondary label text below the value (e.g. "Completion Rate") */
-  label?: string;
-  /** Show min/max labels at the arc ends (default: false) */
-  showMinMax?: boolean;
-  /** Animate on mount (default: true) */
-  showAnimation?: boolean;
-  /** Arc span in degrees: 180 (half), 240, or 270 (default: 180) */
-  arcSpan?: 180 | 240 | 270;
-  /** Show a needle indicator (default: false) */
-  showNeedle?: boolean;
-  /** Stroke width of the arc track and fill (default: 10) */
-  strokeWidth?: number;
+  layers?: GaugeLayer[];
+  /** Shorthand for a single `"foreground"` layer */
+  renderLayer?: GaugeLayer["render"];
   /** Additional class name for the root element */
   className?: string;
 }
 
-const SIZE = 200;
-const CX = SIZE / 2;
-const CY = SIZE / 2;
-
-/** Resolve the fill color from thresholds or plain color prop */
-function resolveColor(
-  value: number,
-  color: Color,
-  thresholds?: GaugeThreshold[],
-): Color {
-  if (!thresholds || thresholds.length === 0) return color;
-  const sorted = [...thresholds].sort((a, b) => a.value - b.value);
-  let resolved = sorted[0].color;
-  for (const t of sorted) {
-    if (value >= t.value) resolved = t.color;
-    else break;
-  }
-  return resolved;
-}
-
 export const GaugeChart = React.forwardRef<SVGSVGElement, GaugeChartProps>(
-  (
-    {
-      value,
-      min = 0,
-      max = 100,
-      color = "blue",
-      thresholds,
-      showThresholdArc = false,
-      gradient,
-      valueFormatter = (v) => `${v}`,
-      showLabel = true,
-      label,
-      showMinMax = false,
-      showAnimation = true,
-      arcSpan = 180,
-      showNeedle = false,
-      strokeWidth = 10,
-      className,
-    },
-    ref,
-  ) => {
-    const gradientId = useId();
-    const [mounted, setMounted] = useState(!showAnimation);
-    useLayoutEffect(() => {
-      if (!showAnimation) return;
-      // Flip after first paint so CSS transitions kick in
-      const id = requestAnimationFrame(() => setMounted(true));
-      return () => cancelAnimationFrame(id);
-    }, []); // eslint-disable-line react-hooks/exhaustive-deps
-
-    const radius = (SIZE - strokeWidth * 2) / 2;
-    const range = max - min;
-    const targetFraction =
-      range <= 0
-        ? 0
-        : (Math.max(min, Math.min(max, value)) - min) / range;
-    const fraction = mounted ? targetFraction : 0;
-
-    // Resolve fill color
-    const activeColor = resolveColor(value, color, thresholds);
-    const fillHex = gradient
-      ? `url(#${gradientId})`
-      : getColorValue(activeColor);
-
-    // Background track (full arc)
-    const track = getArcDash(radius, arcSpan, 1);
-    // Filled arc
-    const fill = getArcDash(radius, arcSpan, fraction);
-
-    // Threshold arc mode
-    const thresholdMode =
-      showThresholdArc === true
-        ? "ticks"
-        : showThresholdArc === "bands"
-          ? "bands"
-          : showThresholdArc === "ticks"
-            ? "ticks"
-            : false;
-
-    // Threshold zone bands
-    const thresholdBands = (() => {
-      if (
-        thresholdMode !== "bands" ||
-        !thresholds ||
-        thresholds.length === 0 ||
-        range <= 0
-      )
-        return null;
-      const sorted = [...thresholds].sort((a, b) => a.value - b.value);
-      const fracs = sorted.map((t, i) => {
-        const start = (Math.max(min, t.value) - min) / range;
-        const end =
-          i < sorted.length - 1
-            ? (Math.max(min, sorted[i + 1].value) - min) / range
-            : 1;
-        return { fraction: Math.max(0, end - start), color: t.color };
-      });
-      const arcs = getSegmentArcs(
-        radius,
-        arcSpan,
-        fracs.map((f) => f.fraction),
-      );
-      return fracs.map((f, i) => ({ ...arcs[i], color: f.color }));
-    })();
-
-    // Threshold tick positions
-    const thresholdTicks = (() => {
-      if (
-        thresholdMode !== "ticks" ||
-        !thresholds ||
-        thresholds.length < 2 ||
-        range <= 0
-      )
-        return null;
-      const sorted = [...thresholds].sort((a, b) => a.value - b.value);
-      // Skip the first threshold (it's the arc start), draw ticks at boundaries
-      return sorted.slice(1).map((t) => {
-        const angle = getNeedleAngle(t.value, min, max, arcSpan);
-        return { angle, color: t.color };
-      });
-    })();
-
-    // Needle
-    const targetNeedleAngle = showNeedle
-      ? getNeedleAngle(value, min, max, arcSpan)
-      : 0;
-    const needleAngle = mounted
-      ? targetNeedleAngle
-      : getNeedleAngle(min, min, max, arcSpan);
-    const needleLength = radius - 4;
+  ({ layers, renderLayer, className, ...options }, ref) => {
+    const gauge = useGauge(options);
+    const theme = useGaugeTheme();
+    const cls = getClassNames(theme.styling);
+    const {
+      cx: CX,
+      cy: CY,
+      radius,
+      strokeWidth,
+      animate,
+      interactive,
+      disabled,
+    } = gauge;
 
-    // ── Label positioning ──────────────────────────────────────────
-    const valueFontSize = arcSpan <= 180 ? 28 : 26;
-    const labelFontSize = 12;
-
-    const valueY = (() => {
-      if (showNeedle) {
-        const offset = label ? radius * 0.42 : radius * 0.35;
-        return CY - offset;
-      }
-      if (arcSpan <= 180) return CY - (label ? 4 : -4);
-      return CY + (label ? 2 : 6);
-    })();
-    const labelY = valueY + valueFontSize * 0.65 + 4;
-
-    // ── ViewBox sizing ─────────────────────────────────────────────
-    const minMaxLabelBottom = (() => {
-      if (!showMinMax) return 0;
-      if (arcSpan <= 180) return CY + strokeWidth + 14 + 12;
-      const halfAngle = ((arcSpan - 180) / 2) * (Math.PI / 180);
-      return (
-        CY + radius * Math.cos(halfAngle) + strokeWidth + 10 + 12
-      );
-    })();
-    const centerLabelBottom =
-      showLabel && label
-        ? labelY + labelFontSize
-        : showLabel
-          ? valueY + valueFontSize * 0.5
-          : 0;
-    const arcBottom =
-      arcSpan <= 180 ? CY + strokeWidth + 8 : SIZE;
-    const viewBoxHeight = Math.max(
-      arcBottom,
-      minMaxLabelBottom,
-      centerLabelBottom,
+    // ── Custom layers ──────────────────────────────────────────────
+    const layerContext: GaugeLayerContext = {
+      cx: CX,
+      cy: CY,
+      radius,
+      strokeWidth,
+      scale: gauge.scale,
+      value: gauge.value,
+      fillColor: gauge.fillColor,
+      getColor: getColorValue,
+      viewBox: gauge.viewBox,
+    };
+    // A pegged needle takes the overflow warning color
+    const needleColor =
+      gauge.overflow?.mode === "peg" ? gauge.overflow.color : theme.needleColor;
+    const hubStroke = themeColorProps(
+      needleColor,
+      "stroke",
+      cls.needleHubStroke,
     );
-
-    // Gradient arc start/end coordinates (userSpaceOnUse)
-    const gradStartRad = degToRad(track.rotationDeg);
-    const gradEndRad = degToRad(track.rotationDeg + arcSpan);
-    const gradX1 = CX + radius * Math.cos(gradStartRad);
-    const gradY1 = CY + radius * Math.sin(gradStartRad);
-    const gradX2 = CX + radius * Math.cos(gradEndRad);
-    const gradY2 = CY + radius * Math.sin(gradEndRad);
-
-    // Tapered needle path (triangle: narrow tip, wide base)
-    const needleBaseHalf = 3.5;
-    const needlePath = `M ${CX} ${CY - needleLength} L ${CX - needleBaseHalf} ${CY - 2} L ${CX + needleBaseHalf} ${CY - 2} Z`;
+    const renderLayers = (position: GaugeLayerPosition) =>
+      getLayersAt(position, layers, renderLayer).map((render, i) => (
+        <React.Fragment key={`${position}-${i}`}>
+          {render(layerContext)}
+        </React.Fragment>
+      ));
 
     return (
       <svg
         ref={ref}
-        viewBox={`0 0 ${SIZE} ${viewBoxHeight}`}
-        className={cx("w-full", className)}
-        role="meter"
-        aria-valuenow={value}
-        aria-valuemin={min}
-        aria-valuemax={max}
-        aria-label={
-          label
-            ? `${label}: ${valueFormatter(value)}`
-            : `Gauge: ${valueFormatter(value)}`
+        {...gauge.svgProps}
+        className={cx(
+          cls.root,
+          interactive && cls.interactive,
+          interactive && disabled && cls.disabled,
+          className,
+        )}
+        style={
+          theme.fontFamily ? { fontFamily: theme.fontFamily } : undefined
         }
       >
         {/* Defs */}
         <defs>
-          {gradient && (
-            <linearGradient
-              id={gradientId}
-              gradientUnits="userSpaceOnUse"
-              x1={gradX2}
-              y1={gradY2}
-              x2={gradX1}
-              y2={gradY1}
-            >
-              <stop
-                offset="0%"
-                stopColor={getColorValue(gradient.from)}
-              />
-              <stop
-                offset="100%"
-                stopColor={getColorValue(gradient.to)}
-              />
-            </linearGradient>
-          )}
-          {showNeedle && (
-            <filter id={`${gradientId}-shadow`}>
+          {gauge.needle && (
+            <filter id={`${gauge.defsId}-shadow`}>
               <feDropShadow
                 dx="0"
                 dy="1"
@@ -294,124 +113,285 @@ export const GaugeChart = React.forwardRef<SVGSVGElement, GaugeChartProps>(
           )}
         </defs>
 
+        {renderLayers("beforeTrack")}
+
+        {/* Segmented blocks — unlit blocks use the track color */}
+        {gauge.segmented && (
+          <g data-testid="segments">
+            {gauge.blocks.map((block, i) => (
+              <path
+                key={i}
+                d={block.d}
+                fill="none"
+                {...(block.lit
+                  ? { stroke: block.stroke }
+                  : themeColorProps(theme.trackColor, "stroke", cls.track))}
+                strokeWidth={strokeWidth}
+                strokeLinecap={gauge.segmentCap === "round" ? "round" : "butt"}
+                style={
+                  animate ? { transition: "stroke 0.3s ease-out" } : undefined
+                }
+                data-lit={block.lit ? "true" : undefined}
+              />
+            ))}
+          </g>
+        )}
+
         {/* Background track */}
-        {thresholdBands ? (
-          <>
-            {/* Gray base with round caps for clean ends */}
-            <circle
-              cx={CX}
-              cy={CY}
-              r={radius}
-              fill="none"
-              className="stroke-gray-200 dark:stroke-gray-800"
-              strokeWidth={strokeWidth}
+        {!gauge.segmented && (
+          <path
+            d={gauge.trackPath}
+            fill="none"
+            {...themeColorProps(theme.trackColor, "stroke", cls.track)}
+            strokeWidth={strokeWidth}
+            strokeLinecap={gauge.isRing ? "butt" : "round"}
+          />
+        )}
+
+        {/* Threshold bands — filled outlines with their own end caps */}
+        {!gauge.segmented &&
+          gauge.thresholdBands &&
+          gauge.thresholdBands.map((zone, i) => (
+            <path
+              key={i}
+              d={zone.d}
+              fill={getColorValue(zone.color)}
+              fillRule="evenodd"
+              className={cls.thresholdBand}
+            />
+          ))}
+
+        {/* Threshold tick marks */}
+        {gauge.thresholdTicks &&
+          gauge.thresholdTicks.map((tick, i) => (
+            <line
+              key={i}
+              x1={tick.from.x}
+              y1={tick.from.y}
+              x2={tick.to.x}
+              y2={tick.to.y}
+              stroke={getColorValue(tick.color)}
+              strokeWidth={2}
               strokeLinecap="round"
-              strokeDasharray={track.dashArray}
-              strokeDashoffset={track.dashOffset}
-              transform={`rotate(${track.rotationDeg} ${CX} ${CY})`}
+              className={cls.thresholdTick}
             />
-            {/* Colored bands (butt caps, tiled cleanly) */}
-            {thresholdBands.map((zone, i) => (
-              <circle
+          ))}
+
+        {renderLayers("afterTrack")}
+
+        {/* Tick scale */}
+        {gauge.scaleTicks.length > 0 && (
+          <g data-testid="tick-scale">
+            {gauge.scaleTicks.map((t, i) => (
+              <line
                 key={i}
-                cx={CX}
-                cy={CY}
-                r={radius}
-                fill="none"
-                stroke={getColorValue(zone.color)}
-                strokeWidth={strokeWidth - 2}
-                strokeLinecap="butt"
-                strokeDasharray={zone.dashArray}
-                strokeDashoffset={zone.dashOffset}
-                transform={`rotate(${track.rotationDeg} ${CX} ${CY})`}
-                className="opacity-15 dark:opacity-[0.12]"
+                x1={t.from.x}
+                y1={t.from.y}
+                x2={t.to.x}
+                y2={t.to.y}
+                className={t.major ? cls.tickMajor : cls.tickMinor}
+                strokeWidth={t.major ? 1.5 : 1}
+                strokeLinecap="round"
               />
             ))}
-          </>
-        ) : (
-          <circle
-            cx={CX}
-            cy={CY}
-            r={radius}
+            {gauge.tickLabels.map((t, i) => (
+              <text
+                key={i}
+                x={t.x}
+                y={t.y}
+                textAnchor={t.anchor}
+                dominantBaseline="central"
+                {...themeColorProps(theme.labelColor, "fill", cls.tickLabel)}
+                style={{
+                  fontSize: `${gauge.tickFontSize}px`,
+                  fontWeight: 500,
+                  fontVariantNumeric: "tabular-nums",
+                }}
+              >
+                {t.text}
+              </text>
+            ))}
+          </g>
+        )}
+
+        {/* Filled arc */}
+        {!gauge.segmented && gauge.gradient && (
+          <g data-testid="fill">
+            {gauge.gradient.slices.map((slice, i) => (
+              <path key={i} d={slice.d} fill={slice.color} />
+            ))}
+          </g>
+        )}
+        {!gauge.segmented && !gauge.gradient && (
+          <path
+            d={gauge.fillPath}
             fill="none"
-            className="stroke-gray-200 dark:stroke-gray-800"
+            stroke={gauge.fillColor}
             strokeWidth={strokeWidth}
+            strokeLinecap={gauge.isRing && gauge.fraction >= 1 ? "butt" : "round"}
+            data-testid="fill"
+          />
+        )}
+
+        {/* Overflow — a cap at the passed end, or the excess as a second lap */}
+        {gauge.overflow?.cap && (
+          <path
+            d={gauge.overflow.cap.d}
+            fill={gauge.overflow.color}
+            data-testid="overflow-cap"
+          />
+        )}
+        {gauge.overflow?.lapPath && (
+          <path
+            d={gauge.overflow.lapPath}
+            fill="none"
+            stroke={gauge.overflow.color}
+            strokeWidth={strokeWidth / 2}
             strokeLinecap="round"
-            strokeDasharray={track.dashArray}
-            strokeDashoffset={track.dashOffset}
-            transform={`rotate(${track.rotationDeg} ${CX} ${CY})`}
+            data-testid="overflow-lap"
           />
         )}
 
-        {/* Threshold tick marks */}
-        {thresholdTicks &&
-          thresholdTicks.map((tick, i) => {
-            const tickLen = strokeWidth + 6;
-            const outerR = radius + strokeWidth / 2 + 2;
-            const rad = degToRad(tick.angle - 90);
-            const x1 = CX + (outerR - tickLen) * Math.cos(rad);
-            const y1 = CY + (outerR - tickLen) * Math.sin(rad);
-            const x2 = CX + outerR * Math.cos(rad);
-            const y2 = CY + outerR * Math.sin(rad);
+        {/* Origin reference tick */}
+        {gauge.originTick && (
+          <line
+            x1={gauge.originTick.from.x}
+            y1={gauge.originTick.from.y}
+            x2={gauge.originTick.to.x}
+            y2={gauge.originTick.to.y}
+            className={cls.originTick}
+            strokeWidth={1.5}
+            strokeLinecap="round"
+            data-testid="origin-tick"
+          />
+        )}
+
+        {renderLayers("afterFill")}
+
+        {/* Markers */}
+        {gauge.markerLayout.map(({ marker, angle, label: markerLabel }, i) => {
+          const shape = getMarkerShape(
+            CX,
+            CY,
+            radius,
+            strokeWidth,
+            marker.style,
+          );
+          const colorProps = themeColorProps(
+            marker.color,
+            "stroke",
+            cls.markerStroke,
+          );
+          return (
+            <g key={i} data-testid={`marker-${i}`}>
+              {shape.type === "line" ? (
+                <line
+                  x1={shape.x1}
+                  y1={shape.y1}
+                  x2={shape.x2}
+                  y2={shape.y2}
+                  {...colorProps}
+                  strokeWidth={2.5}
+                  strokeLinecap="round"
+                  transform={`rotate(${angle} ${CX} ${CY})`}
+                />
+              ) : (
+                <path
+                  d={shape.d}
+                  {...themeColorProps(marker.color, "fill", cls.markerFill)}
+                  transform={`rotate(${angle} ${CX} ${CY})`}
+                />
+              )}
+              {markerLabel && (
+                <text
+                  x={markerLabel.x}
+                  y={markerLabel.y}
+                  textAnchor={markerLabel.anchor}
+                  dominantBaseline="central"
+                  {...themeColorProps(marker.color, "fill", cls.markerLabel)}
+                  style={{
+                    fontSize: `${gauge.markerFontSize}px`,
+                    fontWeight: 500,
+                  }}
+                >
+                  {marker.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
+        {/* Held max/min — short bars across the track */}
+        {gauge.hold &&
+          (["max", "min"] as const).map((key) => {
+            const mark = gauge.hold![key];
+            if (!mark) return null;
             return (
               <line
-                key={i}
-                x1={x1}
-                y1={y1}
-                x2={x2}
-                y2={y2}
-                stroke={getColorValue(tick.color)}
-                strokeWidth={2}
+                key={key}
+                x1={CX}
+                y1={CY - radius + strokeWidth / 2 + 1}
+                x2={CX}
+                y2={CY - radius - strokeWidth / 2 - 3}
+                {...themeColorProps(theme.needleColor, "stroke", cls.holdMark)}
+                strokeWidth={2.5}
                 strokeLinecap="round"
-                className="opacity-50"
+                style={{
+                  transform: `rotate(${mark.angle}deg)`,
+                  transformOrigin: `${CX}px ${CY}px`,
+                  // Released values slide back to the live one
+                  transition: animate ? "transform 0.3s ease-out" : undefined,
+                }}
+                data-testid={`hold-${key}`}
               />
             );
           })}
 
-        {/* Filled arc */}
-        <circle
-          cx={CX}
-          cy={CY}
-          r={radius}
-          fill="none"
-          stroke={fillHex}
-          strokeWidth={strokeWidth}
-          strokeLinecap="round"
-          strokeDasharray={fill.dashArray}
-          strokeDashoffset={fill.dashOffset}
-          transform={`rotate(${fill.rotationDeg} ${CX} ${CY})`}
-          className={cx(
-            showAnimation &&
-              "motion-safe:transition-[stroke-dashoffset] motion-safe:duration-1000 motion-safe:ease-out",
-          )}
-        />
+        {/* Hold trail — ghost needles fading behind the live one */}
+        {gauge.needle && gauge.hold && gauge.hold.trail.length > 0 && (
+          <g data-testid="hold-trail">
+            {gauge.hold.trail.map((ghost, i) => (
+              <line
+                key={i}
+                x1={CX}
+                y1={CY}
+                x2={CX}
+                y2={CY - gauge.needle!.length}
+                {...themeColorProps(
+                  theme.needleColor,
+                  "stroke",
+                  cls.needleTrail,
+                )}
+                strokeWidth={2}
+                strokeLinecap="round"
+                strokeOpacity={ghost.opacity * 0.35}
+                transform={`rotate(${ghost.angle} ${CX} ${CY})`}
+              />
+            ))}
+          </g>
+        )}
 
         {/* Needle — tapered triangle with drop shadow and hub ring */}
-        {showNeedle && (
+        {gauge.needle && (
           <g
             style={{
-              transform: `rotate(${needleAngle}deg)`,
+              transform: `rotate(${gauge.needle.angle}deg)`,
               transformOrigin: `${CX}px ${CY}px`,
-              ...(showAnimation
-                ? {
-                    transition:
-                      "transform 1s cubic-bezier(0.34, 1.56, 0.64, 1)",
-                  }
-                : undefined),
             }}
           >
             {/* Tapered needle body */}
             <path
-              d={needlePath}
-              className="fill-gray-700 dark:fill-gray-300"
-              filter={`url(#${gradientId}-shadow)`}
+              d={gauge.needle.path}
+              {...themeColorProps(needleColor, "fill", cls.needle)}
+              filter={`url(#${gauge.defsId}-shadow)`}
             />
             {/* Hub outer ring */}
             <circle
               cx={CX}
               cy={CY}
               r={6}
-              className="fill-white stroke-gray-700 dark:fill-gray-950 dark:stroke-gray-300"
+              className={cx(cls.needleHub, hubStroke.className)}
+              stroke={hubStroke.stroke}
               strokeWidth={3}
             />
             {/* Hub center dot */}
@@ -419,105 +399,71 @@ export const GaugeChart = React.forwardRef<SVGSVGElement, GaugeChartProps>(
               cx={CX}
               cy={CY}
               r={2.5}
-              className="fill-gray-700 dark:fill-gray-300"
+              {...themeColorProps(needleColor, "fill", cls.needle)}
             />
           </g>
         )}
 
+        {/* Stop pin a pegged needle rests against */}
+        {gauge.overflow?.stopPin && (
+          <circle
+            cx={gauge.overflow.stopPin.x}
+            cy={gauge.overflow.stopPin.y}
+            r={2.5}
+            fill={gauge.overflow.color}
+            data-testid="stop-pin"
+          />
+        )}
+
         {/* Center value + label */}
-        {showLabel && (
-          <>
-            <text
-              x={CX}
-              y={valueY}
-              textAnchor="middle"
-              dominantBaseline="central"
-              className="fill-gray-900 dark:fill-gray-50"
-              style={{
-                fontSize: `${valueFontSize}px`,
-                fontWeight: 600,
-                fontVariantNumeric: "tabular-nums",
-              }}
-            >
-              {valueFormatter(value)}
-            </text>
-            {label && (
-              <text
-                x={CX}
-                y={labelY}
-                textAnchor="middle"
-                dominantBaseline="central"
-                className="fill-gray-500 dark:fill-gray-500"
-                style={{
-                  fontSize: `${labelFontSize}px`,
-                  fontWeight: 500,
-                }}
-              >
-                {label}
-              </text>
-            )}
-          </>
+        {gauge.valueLabel && (
+          <text
+            x={gauge.valueLabel.x}
+            y={gauge.valueLabel.y}
+            textAnchor="middle"
+            dominantBaseline="central"
+            {...themeColorProps(theme.valueColor, "fill", cls.value)}
+            style={{
+              fontSize: `${gauge.valueLabel.fontSize}px`,
+              fontWeight: 600,
+              fontVariantNumeric: "tabular-nums",
+            }}
+          >
+            {gauge.valueLabel.text}
+          </text>
+        )}
+        {gauge.secondaryLabel && (
+          <text
+            x={gauge.secondaryLabel.x}
+            y={gauge.secondaryLabel.y}
+            textAnchor="middle"
+            dominantBaseline="central"
+            {...themeColorProps(theme.labelColor, "fill", cls.label)}
+            style={{
+              fontSize: `${gauge.secondaryLabel.fontSize}px`,
+              fontWeight: 500,
+            }}
+          >
+            {gauge.secondaryLabel.text}
+          </text>
         )}
 
         {/* Min/Max labels */}
-        {showMinMax && (
-          <>
-            <text
-              x={
-                arcSpan <= 180
-                  ? CX - radius - 2
-                  : CX -
-                    radius *
-                      Math.sin(
-                        ((arcSpan - 180) / 2) * (Math.PI / 180),
-                      )
-              }
-              y={
-                arcSpan <= 180
-                  ? CY + strokeWidth + 14
-                  : CY +
-                    radius *
-                      Math.cos(
-                        ((arcSpan - 180) / 2) * (Math.PI / 180),
-                      ) +
-                    strokeWidth +
-                    10
-              }
-              textAnchor="middle"
-              className="fill-gray-400 dark:fill-gray-600"
-              style={{ fontSize: "11px", fontWeight: 500 }}
-            >
-              {valueFormatter(min)}
-            </text>
-            <text
-              x={
-                arcSpan <= 180
-                  ? CX + radius + 2
-                  : CX +
-                    radius *
-                      Math.sin(
-                        ((arcSpan - 180) / 2) * (Math.PI / 180),
-                      )
-              }
-              y={
-                arcSpan <= 180
-                  ? CY + strokeWidth + 14
-                  : CY +
-                    radius *
-                      Math.cos(
-                        ((arcSpan - 180) / 2) * (Math.PI / 180),
-                      ) +
-                    strokeWidth +
-                    10
-              }
-              textAnchor="middle"
-              className="fill-gray-400 dark:fill-gray-600"
-              style={{ fontSize: "11px", fontWeight: 500 }}
-            >
-              {valueFormatter(max)}
-            </text>
-          </>
-        )}
+        {gauge.minMaxLabels.map((l, i) => (
+          <text
+            key={i}
+            x={l.x}
+            y={l.y}
+            textAnchor="middle"
+            dominantBaseline="central"
+            {...themeColorProps(theme.labelColor, "fill", cls.minMax)}
+            style={{ fontSize: "11px", fontWeight: 500 }}
+          >
+            {l.text}
+          </text>
+        ))}
+
+        {renderLayers("foreground")}
       </svg>
     );
   },
@@ -17,6 +17,24 @@ describe("GaugeLegend", () => {
     expect(screen.getByText("Pending")).toBeInTheDocument();
   });
 
+  it("draws swatches for tokens and custom colors", () => {
+    const { container } = render(
+      <GaugeLegend
+        items={[
+          { name: "Critical", value: 3, color: "red" },
+          { name: "Brand", value: 5, color: "#0ea5e9" },
+          { name: "Themed", value: 8, color: "--status-ok" },
+        ]}
+      />,
+    );
+    const swatches = container.querySelectorAll("[aria-hidden='true']");
+    expect(swatches[0]).toHaveStyle({ backgroundColor: "#ef4444" });
+    expect(swatches[1]).toHaveStyle({ backgroundColor: "#0ea5e9" });
+    expect((swatches[2] as HTMLElement).style.backgroundColor).toBe(
+      "var(--status-ok)",
+    );
+  });
+
   it("displays formatted values", () => {
     render(<GaugeLegend items={items} valueFormatter={(v) => `$${v}`} />);
     expect(screen.getByText("$450")).toBeInTheDocument();
@@ -2,7 +2,9 @@
 
 import React from "react";
 import { cx } from "../../utils/cx";
-import { type Color, colorBgClasses } from "../../utils/chartColors";
+import { type Color, getColorValue } from "../../utils/chartColors";
+import { getClassNames } from "../../utils/styling";
+import { useGaugeTheme } from "../GaugeThemeProvider/GaugeThemeProvider";
 
 export interface GaugeLegendItem {
   name: string;
@@ -26,26 +28,26 @@ export interface GaugeLegendProps {
 }
 
 export const GaugeLegend = React.forwardRef<HTMLOListElement, GaugeLegendProps>(
-  (
-    {
+  (props, ref) => {
+    const theme = useGaugeTheme();
+    const cls = getClassNames(theme.styling);
+    const {
       items,
-      valueFormatter = (v) => `${v}`,
+      valueFormatter = theme.valueFormatter ?? ((v: number) => `${v}`),
       showShare = false,
       activeName,
       onItemClick,
       className,
-    },
-    ref,
-  ) => {
+    } = props;
     const total = items.reduce((sum, item) => sum + item.value, 0);
 
     return (
       <ol
         ref={ref}
-        className={cx(
-          "flex flex-col divide-y divide-gray-200 dark:divide-gray-800",
-          className,
-        )}
+        className={cx(cls.legend, className)}
+        style={
+          theme.fontFamily ? { fontFamily: theme.fontFamily } : undefined
+        }
         aria-label="Gauge legend"
       >
         {items.map((item) => {
@@ -60,34 +62,43 @@ export const GaugeLegend = React.forwardRef<HTMLOListElement, GaugeLegendProps>(
               <button
                 type="button"
                 className={cx(
-                  "flex w-full items-center justify-between gap-4 px-2 py-2.5 text-sm",
-                  "transition-opacity duration-150",
-                  isClickable &&
-                    "cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-900",
-                  !isClickable && "cursor-default",
-                  !isActive && "opacity-30",
+                  cls.legendItem,
+                  isClickable ? cls.legendItemClickable : cls.legendItemStatic,
+                  !isActive && cls.inactive,
                 )}
                 onClick={() => onItemClick?.(item.name)}
                 tabIndex={isClickable ? 0 : -1}
               >
-                <span className="flex items-center gap-2 truncate">
+                <span className={cls.legendName}>
                   <span
-                    className={cx(
-                      "size-2.5 shrink-0 rounded-sm",
-                      colorBgClasses[item.color],
-                    )}
+                    className={cls.legendSwatch}
+                    style={{ backgroundColor: getColorValue(item.color) }}
                     aria-hidden="true"
                   />
-                  <span className="truncate text-gray-700 dark:text-gray-300">
+                  <span
+                    className={cls.legendNameText}
+                    style={
+                      theme.labelColor
+                        ? { color: getColorValue(theme.labelColor) }
+                        : undefined
+                    }
+                  >
                     {item.name}
                   </span>
                 </span>
-                <span className="flex items-center gap-2">
-                  <span className="font-medium tabular-nums text-gray-900 dark:text-gray-50">
+                <span className={cls.legendValues}>
+                  <span
+                    className={cls.legendValue}
+                    style={
+                      theme.valueColor
+                        ? { color: getColorValue(theme.valueColor) }
+                        : undefined
+                    }
+                  >
                     {valueFormatter(item.value)}
                   </span>
                   {showShare && (
-                    <span className="rounded bg-gray-100 px-1.5 py-0.5 text-xs font-medium tabular-nums text-gray-500 dark:bg-gray-800 dark:text-gray-400">
+                    <span className={cls.legendShare}>
                       {share}%
                     </span>
                   )}
@@ -0,0 +1,119 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import { GaugeLinear } from "./GaugeLinear";
+
+const meta: Meta<typeof GaugeLinear> = {
+  title: "Components/GaugeLinear",
+  component: GaugeLinear,
+  tags: ["autodocs"],
+  parameters: { docs: { source: { excludeDecorators: true } } },
+  decorators: [
+    (Story) => (
+      <div className="mx-auto max-w-sm rounded-lg border border-gray-200 bg-white p-6 shadow-sm dark:border-gray-800 dark:bg-gray-950">
+        <Story />
+      </div>
+    ),
+  ],
+  argTypes: {
+    value: { control: { type: "range", min: 0, max: 100 } },
+    orientation: { control: "select", options: ["horizontal", "vertical"] },
+    showThresholdArc: {
+      control: "select",
+      options: [false, "bands", "ticks"],
+    },
+    strokeWidth: { control: { type: "range", min: 2, max: 20, step: 2 } },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof GaugeLinear>;
+
+const thresholds = [
+  { value: 0, color: "emerald" as const },
+  { value: 60, color: "amber" as const },
+  { value: 85, color: "pink" as const },
+];
+
+export const Default: Story = {
+  args: {
+    value: 64,
+    label: "Disk usage",
+    valueFormatter: (v: number) => `${v}%`,
+  },
+};
+
+export const WithThresholds: Story = {
+  args: {
+    value: 72,
+    label: "Memory",
+    thresholds,
+    showThresholdArc: "bands",
+    showMinMax: true,
+    valueFormatter: (v: number) => `${v}%`,
+  },
+};
+
+export const WithMarkers: Story = {
+  args: {
+    value: 58,
+    label: "Quarterly target",
+    color: "violet",
+    markers: [
+      { value: 75, label: "Goal" },
+      { value: 90, label: "Stretch", style: "triangle", color: "pink" },
+    ],
+    showMinMax: true,
+  },
+};
+
+export const Gradient: Story = {
+  args: {
+    value: 80,
+    label: "Battery",
+    gradient: { from: "pink", to: "emerald" },
+    valueFormatter: (v: number) => `${v}%`,
+  },
+};
+
+export const Vertical: Story = {
+  render: (args) => (
+    <div className="flex h-56 justify-center gap-8">
+      <GaugeLinear {...args} value={35} label="Tank A" />
+      <GaugeLinear {...args} value={78} label="Tank B" />
+      <GaugeLinear {...args} value={92} label="Tank C" />
+    </div>
+  ),
+  args: {
+    orientation: "vertical",
+    thresholds,
+    showThresholdArc: "ticks",
+    strokeWidth: 12,
+    valueFormatter: (v: number) => `${v}%`,
+  },
+};
+
+export const TableCell: Story = {
+  name: "Compact (table cell)",
+  render: (args) => (
+    <table className="w-full text-sm text-gray-700 dark:text-gray-300">
+      <tbody>
+        {[
+          ["api-1", 42],
+          ["api-2", 71],
+          ["db-1", 93],
+        ].map(([host, v]) => (
+          <tr key={host}>
+            <td className="py-1 pr-4">{host}</td>
+            <td className="w-40 py-1">
+              <GaugeLinear {...args} value={v as number} />
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  ),
+  args: {
+    thresholds,
+    strokeWidth: 6,
+    valueFormatter: (v: number) => `${v}%`,
+  },
+};
@@ -0,0 +1,185 @@
+import { describe, it, expect } from "vitest";
+import { render, screen } from "@testing-library/react";
+import { GaugeLinear } from "./GaugeLinear";
+
+const thresholds = [
+  { value: 0, color: "emerald" as const },
+  { value: 60, color: "amber" as const },
+  { value: 85, color: "pink" as const },
+];
+
+describe("GaugeLinear", () => {
+  it("renders a meter with ARIA attributes", () => {
+    render(<GaugeLinear value={42} label="Disk" />);
+    const meter = screen.getByRole("meter", { name: "Disk: 42" });
+    expect(meter).toHaveAttribute("aria-valuenow", "42");
+    expect(meter).toHaveAttribute("aria-valuemin", "0");
+    expect(meter).toHaveAttribute("aria-valuemax", "100");
+  });
+
+  it("fills proportionally to the value", () => {
+    render(<GaugeLinear value={25} showAnimation={false} />);
+    const fill = screen.getByTestId("fill");
+    const x1 = Number(fill.getAttribute("x1"));
+    const x2 = Number(fill.getAttribute("x2"));
+    // The bar's centerline runs from x1 across 200 - strokeWidth (8)
+    expect(x2 - x1).toBeCloseTo(192 * 0.25);
+  });
+
+  it("clamps values outside min/max", () => {
+    render(<GaugeLinear value={150} showAnimation={false} />);
+    const fill = screen.getByTestId("fill");
+    expect(Number(fill.getAttribute("x2"))).toBe(196);
+  });
+
+  it("resolves the fill color from thresholds", () => {
+    render(<GaugeLinear value={90} thresholds={thresholds} />);
+    expect(screen.getByTestId("fill")).toHaveAttribute("stroke", "#ec4899");
+  });
+
+  it("uses a gradient when provided", () => {
+    const { container } = render(
+      <GaugeLinear value={50} gradient={{ from: "emerald", to: "pink" }} />,
+    );
+    expect(container.querySelector("linearGradient")).toBeInTheDocument();
+    expect(screen.getByTestId("fill").getAttribute("stroke")).toMatch(
+      /^url\(#/,
+    );
+  });
+
+  it("derives gradient stops from thresholds", () => {
+    const { container } = render(
+      <GaugeLinear value={50} thresholds={thresholds} gradient="thresholds" />,
+    );
+    const stops = container.querySelectorAll("stop");
+    expect(stops).toHaveLength(thresholds.length);
+    expect([...stops].map((s) => Number(s.getAttribute("offset")))).toEqual(
+      thresholds.map((t) => t.value / 100),
+    );
+  });
+
+  it("renders threshold bands and ticks", () => {
+    const { container, rerender } = render(
+      <GaugeLinear
+        value={50}
+        thresholds={thresholds}
+        showThresholdArc="bands"
+      />,
+    );
+    // track + 3 bands + fill
+    expect(container.querySelectorAll("line")).toHaveLength(5);
+    rerender(
+      <GaugeLinear
+        value={50}
+        thresholds={thresholds}
+        showThresholdArc="ticks"
+      />,
+    );
+    // track + 2 boundary ticks + fill
+    expect(container.querySelectorAll("line")).toHaveLength(4);
+  });
+
+  it("colors and bands inverted thresholds like GaugeChart", () => {
+    const latency = [
+      { value: 200, color: "emerald" as const },
+      { value: 500, color: "amber" as const },
+      { value: 2000, color: "pink" as const },
+    ];
+    const { container } = render(
+      <GaugeLinear
+        value={350}
+        max={3000}
+        thresholds={latency}
+        invert
+        showThresholdArc="bands"
+        showAnimation={false}
+      />,
+    );
+    expect(screen.getByTestId("fill")).toHaveAttribute("stroke", "#f59e0b");
+    // track + 3 bands + fill; emerald starts at min, pink runs on to max
+    const lines = container.querySelectorAll("line");
+    expect(lines).toHaveLength(5);
+    expect(lines[1]).toHaveAttribute("x1", lines[0].getAttribute("x1"));
+    expect(lines[3]).toHaveAttribute("stroke", "#ec4899");
+    expect(lines[3]).toHaveAttribute("x2", lines[0].getAttribute("x2"));
+  });
+
+  it("formats the value and min/max labels", () => {
+    render(
+      <GaugeLinear
+        value={0.5}
+        max={1}
+        showMinMax
+        valueFormatter={(v) => `${Math.round(v * 100)}%`}
+      />,
+    );
+    expect(screen.getByText("50%")).toBeInTheDocument();
+    expect(screen.getByText("0%")).toBeInTheDocument();
+    expect(screen.getByText("100%")).toBeInTheDocument();
+  });
+
+  it("hides the value label when showLabel is false", () => {
+    render(<GaugeLinear value={42} showLabel={false} />);
+    expect(screen.queryByText("42")).not.toBeInTheDocument();
+  });
+
+  it("renders markers with labels", () => {
+    render(
+      <GaugeLinear
+        value={40}
+        markers={[
+          { value: 80, label: "Target" },
+          { value: 95, label: "SLA", style: "triangle", color: "pink" },
+        ]}
+      />,
+    );
+    expect(screen.getByTestId("marker-0")).toBeInTheDocument();
+    expect(screen.getByTestId("marker-1").querySelector("path")).toBeTruthy();
+    expect(screen.getByText("Target")).toBeInTheDocument();
+    expect(screen.getByText("SLA")).toHaveAttribute("fill", "#ec4899");
+  });
+
+  it("lays the bar out vertically, filling from the bottom", () => {
+    render(
+      <GaugeLinear value={50} orientation="vertical" showAnimation={false} />,
+    );
+    const fill = screen.getByTestId("fill");
+    expect(fill.getAttribute("x1")).toBe(fill.getAttribute("x2"));
+    expect(Number(fill.getAttribute("y1"))).toBeGreaterThan(
+      Number(fill.getAttribute("y2")),
+    );
+  });
+
+  it("keeps the header within the bar's length", () => {
+    const { container, rerender } = render(
+      <GaugeLinear value={40} showAnimation={false} />,
+    );
+    // The text box, padded by 1, fits in 0..200 without widening the view
+    const viewBox = () =>
+      container
+        .querySelector("svg")!
+        .getAttribute("viewBox")!
+        .split(" ")
+        .map(Number);
+    expect(screen.getByText("40")).toHaveAttribute("x", "0");
+    expect(viewBox()[0]).toBeGreaterThanOrEqual(-1);
+    expect(viewBox()[2]).toBeLessThanOrEqual(202);
+    rerender(<GaugeLinear value={40} label="Disk" showAnimation={false} />);
+    expect(screen.getByText("40")).toHaveAttribute("x", "200");
+    expect(screen.getByText("40")).toHaveAttribute("text-anchor", "end");
+    expect(viewBox()[2]).toBeLessThanOrEqual(202);
+  });
+
+  it("forwards ref to the SVG element", () => {
+    let svg: SVGSVGElement | null = null;
+    render(
+      <GaugeLinear
+        value={10}
+        ref={(el) => {
+          svg = el;
+        }}
+      />,
+    );
+    expect(svg).toBeInstanceOf(SVGSVGElement);
+  });
+});
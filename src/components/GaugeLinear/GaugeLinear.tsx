@@ -0,0 +1,551 @@
+"use client";
+
+import React, { useId } from "react";
+import { cx } from "../../utils/cx";
+import { type Color, getColorValue } from "../../utils/chartColors";
+import { type GaugeMarker, getMarkerOuterExtent } from "../../utils/markers";
+import {
+  type LabelBox,
+  type TextAnchor,
+  boxesOverlap,
+  getTextBox,
+  padBox,
+  unionBoxes,
+} from "../../utils/labels";
+import {
+  type GaugeThreshold,
+  getThresholdZones,
+  resolveColor,
+} from "../../utils/thresholds";
+import { type GaugeGradient, getGradientStops } from "../../utils/gradient";
+import { getValueScale } from "../../utils/scale";
+import { getClassNames, getDefaultColors } from "../../utils/styling";
+import { useAnimatedValue } from "../../hooks/useAnimatedValue";
+import {
+  themeColorProps,
+  useGaugeTheme,
+} from "../GaugeThemeProvider/GaugeThemeProvider";
+
+export interface GaugeLinearProps {
+  /** Current value */
+  value: number;
+  /** Minimum value (default: 0) */
+  min?: number;
+  /** Maximum value (default: 100) */
+  max?: number;
+  /** Tremor color token or any CSS color (used when thresholds are not set) */
+  color?: Color;
+  /**
+   * Value-based color thresholds, with the same semantics as `GaugeChart`:
+   * the fill takes the color of the highest threshold the value has reached.
+   */
+  thresholds?: GaugeThreshold[];
+  /**
+   * Read thresholds as "lower is better", as on `GaugeChart`: each zone
+   * ends at its threshold, so a value takes the lowest threshold at or
+   * above it (default: false)
+   */
+  invert?: boolean;
+  /**
+   * How to visualize threshold zones on the background track.
+   * - `"bands"` — colored segments behind the fill
+   * - `"ticks"` — thin tick marks at each threshold boundary (same as `true`)
+   * - `false` / not set — plain gray track
+   */
+  showThresholdArc?: boolean | "bands" | "ticks";
+  /**
+   * Color the fill with a gradient running from min to max: `{ from, to }`,
+   * `{ stops: [{ offset, color }] }`, or `"thresholds"` (see `GaugeChart`)
+   */
+  gradient?: GaugeGradient;
+  /** Reference values (targets, SLAs) drawn across or beside the bar */
+  markers?: GaugeMarker[];
+  /** Format the displayed value */
+  valueFormatter?: (value: number) => string;
+  /** Show the value label (default: true) */
+  showLabel?: boolean;
+  /** Secondary label text (e.g. "Disk usage") */
+  label?: string;
+  /** Show min/max labels at the bar ends (default: false) */
+  showMinMax?: boolean;
+  /** Animate on mount (default: true) */
+  showAnimation?: boolean;
+  /** Bar direction; vertical bars fill from the bottom (default: "horizontal") */
+  orientation?: "horizontal" | "vertical";
+  /** Thickness of the track and fill (default: 8) */
+  strokeWidth?: number;
+  /** Additional class name for the root element */
+  className?: string;
+}
+
+/** Length of the bar along its axis, in viewBox units */
+const LENGTH = 200;
+
+export const GaugeLinear = React.forwardRef<SVGSVGElement, GaugeLinearProps>(
+  (props, ref) => {
+    const theme = useGaugeTheme();
+    const cls = getClassNames(theme.styling);
+    const {
+      value,
+      min = 0,
+      max = 100,
+      color = theme.color ?? getDefaultColors(theme.styling)[0],
+      thresholds,
+      invert = false,
+      showThresholdArc = false,
+      gradient,
+      markers,
+      valueFormatter = theme.valueFormatter ?? ((v: number) => `${v}`),
+      showLabel = true,
+      label,
+      showMinMax = false,
+      showAnimation = theme.showAnimation ?? true,
+      orientation = "horizontal",
+      strokeWidth = theme.strokeWidth ?? 8,
+      className,
+    } = props;
+
+    const gradientId = useId();
+    const vertical = orientation === "vertical";
+    const range = max - min;
+    const { toFraction } = getValueScale("linear", min, max);
+    const targetFraction = toFraction(value);
+    const fraction = useAnimatedValue(targetFraction, {
+      animate: showAnimation,
+      from: 0,
+      duration: theme.animationDuration,
+      easing: theme.animationEasing,
+      delay: theme.animationDelay,
+    });
+
+    // Resolve fill color
+    const activeColor = resolveColor(
+      value,
+      color,
+      thresholds,
+      undefined,
+      invert,
+    );
+    const gradientStops = gradient
+      ? getGradientStops(gradient, thresholds, toFraction)
+      : [];
+    const fillHex =
+      gradientStops.length > 0
+        ? `url(#${gradientId})`
+        : getColorValue(activeColor);
+
+    // ── Geometry ───────────────────────────────────────────────────
+    // Header (value + label) sits above the bar in both orientations
+    const valueFontSize = 14;
+    const labelFontSize = 12;
+    const hasHeader = showLabel || !!label;
+    const headerHeight = hasHeader
+      ? vertical && showLabel && label
+        ? 36
+        : 20
+      : 0;
+    const barCenter = vertical ? 0 : headerHeight + 4 + strokeWidth / 2;
+    // Round caps overhang the ends, so inset the centerline by half a stroke
+    const axisLength = LENGTH - strokeWidth;
+    const axisStart = vertical
+      ? headerHeight + 4 + LENGTH - strokeWidth / 2
+      : strokeWidth / 2;
+    const axisDirection = vertical ? -1 : 1;
+
+    /**
+     * Point at `t` (0..1) along the bar, shifted `offset` across it.
+     * Positive offsets point to the annotation side: below a horizontal
+     * bar, right of a vertical one.
+     */
+    const point = (t: number, offset = 0) => {
+      const along = axisStart + axisDirection * t * axisLength;
+      return vertical
+        ? { x: barCenter + offset, y: along }
+        : { x: along, y: barCenter + offset };
+    };
+    const barStart = point(0);
+    const barEnd = point(1);
+    const fillEnd = point(fraction);
+
+    // Threshold mode
+    const thresholdMode =
+      showThresholdArc === true || showThresholdArc === "ticks"
+        ? "ticks"
+        : showThresholdArc === "bands"
+          ? "bands"
+          : false;
+    const sortedThresholds =
+      thresholds && thresholds.length > 0 && range > 0
+        ? [...thresholds].sort((a, b) => a.value - b.value)
+        : [];
+
+    // Threshold zone bands
+    const thresholdBands =
+      thresholdMode === "bands" && sortedThresholds.length > 0
+        ? getThresholdZones(sortedThresholds, min, max, undefined, invert).map(
+            (zone) => ({
+              from: point(toFraction(zone.from)),
+              to: point(toFraction(zone.to)),
+              color: zone.color,
+            }),
+          )
+        : null;
+
+    // Threshold tick positions — skip the first (it's the bar start), or
+    // the last when inverted, as on GaugeChart
+    const thresholdTicks =
+      thresholdMode === "ticks" && sortedThresholds.length >= 2
+        ? (invert
+            ? sortedThresholds.slice(0, -1)
+            : sortedThresholds.slice(1)
+          ).map((t) => ({
+            from: point(toFraction(t.value), -(strokeWidth / 2 + 3)),
+            to: point(toFraction(t.value), strokeWidth / 2 + 3),
+            color: t.color,
+          }))
+        : null;
+
+    // ── Annotation labels (min/max, markers) ───────────────────────
+    const annotationFontSize = 10;
+    const annotationOffset = strokeWidth / 2 + 4;
+    const annotationAnchor: TextAnchor = vertical ? "start" : "middle";
+
+    /** Place a label beside the bar, stepping away until it clears `avoid` */
+    const placeLabel = (
+      t: number,
+      offset: number,
+      text: string,
+      anchor: TextAnchor,
+      avoid: LabelBox[],
+    ) => {
+      for (let attempt = 0; ; attempt++) {
+        const p = point(t, offset + (vertical ? 0 : annotationFontSize / 2));
+        const box = getTextBox(p.x, p.y, text, annotationFontSize, anchor);
+        if (attempt >= 6 || !avoid.some((b) => boxesOverlap(box, b))) {
+          return { ...p, anchor, text, box };
+        }
+        offset += annotationFontSize;
+      }
+    };
+
+    const minMaxLabels = showMinMax
+      ? [
+          placeLabel(0, annotationOffset, valueFormatter(min), "start", []),
+          placeLabel(
+            1,
+            annotationOffset,
+            valueFormatter(max),
+            vertical ? "start" : "end",
+            [],
+          ),
+        ].map((l) =>
+          // Horizontal end labels align with the bar ends, not the caps
+          vertical
+            ? l
+            : {
+                ...l,
+                x:
+                  l.anchor === "start"
+                    ? barStart.x - strokeWidth / 2
+                    : barEnd.x + strokeWidth / 2,
+              },
+        )
+      : [];
+
+    const markerLayout = (() => {
+      if (!markers || markers.length === 0 || range <= 0) return [];
+      const avoid = minMaxLabels.map((l) =>
+        getTextBox(l.x, l.y, l.text, annotationFontSize, l.anchor),
+      );
+      return markers.map((m) => {
+        const t = toFraction(m.value);
+        const extent = strokeWidth / 2 + getMarkerOuterExtent(m.style);
+        const markerLabel = m.label
+          ? placeLabel(t, extent + 4, m.label, annotationAnchor, avoid)
+          : null;
+        if (markerLabel) avoid.push(markerLabel.box);
+        return { marker: m, t, extent, label: markerLabel };
+      });
+    })();
+
+    // ── Header ─────────────────────────────────────────────────────
+    const valueText = valueFormatter(value);
+    const header = (() => {
+      if (!hasHeader) return [];
+      if (vertical) {
+        return [
+          ...(showLabel
+            ? [
+                {
+                  x: barCenter,
+                  y: 8,
+                  text: valueText,
+                  size: valueFontSize,
+                  anchor: "middle" as const,
+                  isValue: true,
+                },
+              ]
+            : []),
+          ...(label
+            ? [
+                {
+                  x: barCenter,
+                  y: showLabel ? 26 : 8,
+                  text: label,
+                  size: labelFontSize,
+                  anchor: "middle" as const,
+                  isValue: false,
+                },
+              ]
+            : []),
+        ];
+      }
+      return [
+        ...(label
+          ? [
+              {
+                x: 0,
+                y: 8,
+                text: label,
+                size: labelFontSize,
+                anchor: "start" as const,
+                isValue: false,
+              },
+            ]
+          : []),
+        ...(showLabel
+          ? [
+              {
+                // Right-aligned opposite the label, else where it would be
+                x: label ? LENGTH : 0,
+                y: 8,
+                text: valueText,
+                size: valueFontSize,
+                anchor: (label ? "end" : "start") as TextAnchor,
+                isValue: true,
+              },
+            ]
+          : []),
+      ];
+    })();
+
+    // ── ViewBox sizing ─────────────────────────────────────────────
+    const viewBox = unionBoxes([
+      vertical
+        ? {
+            x: barCenter - strokeWidth / 2 - 2,
+            y: 0,
+            width: strokeWidth + 4,
+            height: axisStart + 2,
+          }
+        : {
+            x: 0,
+            y: 0,
+            width: LENGTH,
+            height: barCenter + strokeWidth / 2 + 4,
+          },
+      ...header.map((h) =>
+        padBox(getTextBox(h.x, h.y, h.text, h.size, h.anchor), 1),
+      ),
+      ...minMaxLabels.map((l) =>
+        padBox(getTextBox(l.x, l.y, l.text, annotationFontSize, l.anchor), 2),
+      ),
+      ...markerLayout.flatMap((m) => [
+        padBox({ ...point(m.t, m.extent), width: 0, height: 0 }, 4),
+        ...(m.label ? [padBox(m.label.box, 2)] : []),
+      ]),
+    ]);
+
+    return (
+      <svg
+        ref={ref}
+        viewBox={`${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`}
+        className={cx(vertical ? cls.rootVertical : cls.root, className)}
+        style={
+          theme.fontFamily ? { fontFamily: theme.fontFamily } : undefined
+        }
+        role="meter"
+        aria-valuenow={value}
+        aria-valuemin={min}
+        aria-valuemax={max}
+        aria-label={
+          label
+            ? `${label}: ${valueFormatter(value)}`
+            : `Gauge: ${valueFormatter(value)}`
+        }
+      >
+        {/* Defs */}
+        {gradientStops.length > 0 && (
+          <defs>
+            <linearGradient
+              id={gradientId}
+              gradientUnits="userSpaceOnUse"
+              x1={barStart.x}
+              y1={barStart.y}
+              x2={barEnd.x}
+              y2={barEnd.y}
+            >
+              {gradientStops.map((stop, i) => (
+                <stop key={i} offset={stop.offset} stopColor={stop.color} />
+              ))}
+            </linearGradient>
+          </defs>
+        )}
+
+        {/* Background track */}
+        <line
+          x1={barStart.x}
+          y1={barStart.y}
+          x2={barEnd.x}
+          y2={barEnd.y}
+          {...themeColorProps(theme.trackColor, "stroke", cls.track)}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+        />
+
+        {/* Colored bands (butt caps, tiled cleanly) */}
+        {thresholdBands &&
+          thresholdBands.map((zone, i) => (
+            <line
+              key={i}
+              x1={zone.from.x}
+              y1={zone.from.y}
+              x2={zone.to.x}
+              y2={zone.to.y}
+              stroke={getColorValue(zone.color)}
+              strokeWidth={strokeWidth - 2}
+              strokeLinecap="butt"
+              className={cls.thresholdBand}
+            />
+          ))}
+
+        {/* Threshold tick marks */}
+        {thresholdTicks &&
+          thresholdTicks.map((tick, i) => (
+            <line
+              key={i}
+              x1={tick.from.x}
+              y1={tick.from.y}
+              x2={tick.to.x}
+              y2={tick.to.y}
+              stroke={getColorValue(tick.color)}
+              strokeWidth={2}
+              strokeLinecap="round"
+              className={cls.thresholdTick}
+            />
+          ))}
+
+        {/* Fill */}
+        <line
+          x1={barStart.x}
+          y1={barStart.y}
+          x2={fillEnd.x}
+          y2={fillEnd.y}
+          stroke={fillHex}
+          strokeWidth={strokeWidth}
+          strokeLinecap="round"
+          // A zero-length line still paints its round caps; hide it at 0
+          strokeOpacity={fraction > 0 ? 1 : 0}
+          data-testid="fill"
+        />
+
+        {/* Markers */}
+        {markerLayout.map(({ marker, t, label: markerLabel }, i) => {
+          const inner = point(t, -(strokeWidth / 2 + 2));
+          const outer = point(
+            t,
+            strokeWidth / 2 + getMarkerOuterExtent(marker.style),
+          );
+          const tip = point(t, strokeWidth / 2 + 1);
+          // Triangle base corners, either side of the marker position
+          const side = (sign: number) =>
+            vertical
+              ? { x: outer.x, y: outer.y + sign * 4 }
+              : { x: outer.x + sign * 4, y: outer.y };
+          const fillProps = themeColorProps(
+            marker.color,
+            "fill",
+            cls.markerFill,
+          );
+          return (
+            <g key={i} data-testid={`marker-${i}`}>
+              {marker.style === "triangle" ? (
+                <path
+                  d={`M ${tip.x} ${tip.y} L ${side(-1).x} ${side(-1).y} L ${side(1).x} ${side(1).y} Z`}
+                  {...fillProps}
+                />
+              ) : (
+                <line
+                  x1={inner.x}
+                  y1={inner.y}
+                  x2={outer.x}
+                  y2={outer.y}
+                  {...themeColorProps(
+                    marker.color,
+                    "stroke",
+                    cls.markerStroke,
+                  )}
+                  strokeWidth={2.5}
+                  strokeLinecap="round"
+                />
+              )}
+              {markerLabel && (
+                <text
+                  x={markerLabel.x}
+                  y={markerLabel.y}
+                  textAnchor={markerLabel.anchor}
+                  dominantBaseline="central"
+                  {...themeColorProps(marker.color, "fill", cls.markerLabel)}
+                  style={{
+                    fontSize: `${annotationFontSize}px`,
+                    fontWeight: 500,
+                  }}
+                >
+                  {marker.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+
+        {/* Value + label */}
+        {header.map((h, i) => (
+          <text
+            key={i}
+            x={h.x}
+            y={h.y}
+            textAnchor={h.anchor}
+            dominantBaseline="central"
+            {...(h.isValue
+              ? themeColorProps(theme.valueColor, "fill", cls.value)
+              : themeColorProps(theme.labelColor, "fill", cls.label))}
+            style={{
+              fontSize: `${h.size}px`,
+              fontWeight: h.isValue ? 600 : 500,
+              fontVariantNumeric: h.isValue ? "tabular-nums" : undefined,
+            }}
+          >
+            {h.text}
+          </text>
+        ))}
+
+        {/* Min/Max labels */}
+        {minMaxLabels.map((l, i) => (
+          <text
+            key={i}
+            x={l.x}
+            y={l.y}
+            textAnchor={l.anchor}
+            dominantBaseline="central"
+            {...themeColorProps(theme.labelColor, "fill", cls.minMax)}
+            style={{ fontSize: `${annotationFontSize}px`, fontWeight: 500 }}
+          >
+            {l.text}
+          </text>
+        ))}
+      </svg>
+    );
+  },
+);
+
+GaugeLinear.displayName = "GaugeLinear";
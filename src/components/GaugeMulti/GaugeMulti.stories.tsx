@@ -14,7 +14,9 @@ const meta: Meta<typeof GaugeMulti> = {
     ),
   ],
   argTypes: {
-    arcSpan: { control: "select", options: [180, 240, 270] },
+    arcSpan: { control: { type: "range", min: 1, max: 360 } },
+    orientation: { control: "select", options: ["bottom", "top", "left", "right"] },
+    direction: { control: "select", options: ["clockwise", "counterclockwise"] },
     strokeWidth: { control: { type: "range", min: 4, max: 24, step: 2 } },
   },
 };
@@ -59,6 +61,36 @@ export const WithMarker: Story = {
   },
 };
 
+export const WithMultipleMarkers: Story = {
+  name: "Multiple reference markers",
+  args: {
+    data,
+    category: "source",
+    value: "revenue",
+    colors: ["blue", "cyan", "violet", "amber"],
+    label: "Total Revenue",
+    valueFormatter: fmt,
+    markers: [
+      { value: 7000, label: "Last year" },
+      { value: 8000, label: "Budget", style: "triangle" },
+      { value: 9200, label: "Forecast", color: "violet" },
+    ],
+  },
+};
+
+export const Donut: Story = {
+  name: "Full-circle donut",
+  args: {
+    data,
+    category: "source",
+    value: "revenue",
+    colors: ["blue", "cyan", "violet", "amber"],
+    arcSpan: 360,
+    label: "Revenue",
+    valueFormatter: fmt,
+  },
+};
+
 export const Arc270: Story = {
   name: "270-degree arc",
   args: {
@@ -1,6 +1,7 @@
-import { describe, it, expect, vi } from "vitest";
-import { render, screen, fireEvent } from "@testing-library/react";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { act, render, screen, fireEvent } from "@testing-library/react";
 import { GaugeMulti } from "./GaugeMulti";
+import type { GaugeLayerContext } from "../../utils/layers";
 
 const sampleData = [
   { name: "Sales", amount: 450 },
@@ -9,12 +10,12 @@ const sampleData = [
 ];
 
 describe("GaugeMulti", () => {
-  it("renders an SVG with role img", () => {
+  it("renders an SVG with role group", () => {
     render(
       <GaugeMulti data={sampleData} category="name" value="amount" />,
     );
-    const img = screen.getByRole("img", { name: "Multi-segment gauge" });
-    expect(img).toBeInTheDocument();
+    const group = screen.getByRole("group", { name: "Multi-segment gauge" });
+    expect(group.tagName).toBe("svg");
   });
 
   it("renders one segment per data item", () => {
@@ -22,8 +23,7 @@ describe("GaugeMulti", () => {
       <GaugeMulti data={sampleData} category="name" value="amount" />,
     );
     // Background track + 3 segments
-    const circles = container.querySelectorAll("circle");
-    expect(circles).toHaveLength(4);
+    expect(container.querySelectorAll("path")).toHaveLength(4);
   });
 
   it("calls onValueChange when a segment is clicked", () => {
@@ -70,6 +70,80 @@ describe("GaugeMulti", () => {
     expect(lines.length).toBeGreaterThanOrEqual(1);
   });
 
+  it("renders labels and accessible names for multiple markers", () => {
+    render(
+      <GaugeMulti
+        data={sampleData}
+        category="name"
+        value="amount"
+        valueFormatter={(v) => `$${v}`}
+        markers={[
+          { value: 400, label: "Budget" },
+          { value: 550, label: "Forecast", color: "violet", style: "triangle" },
+        ]}
+      />,
+    );
+    expect(screen.getByText("Budget")).toBeInTheDocument();
+    expect(screen.getByText("Forecast")).toBeInTheDocument();
+    expect(
+      screen.getByRole("img", { name: "Budget: $400" }),
+    ).toBeInTheDocument();
+    const forecast = screen.getByRole("img", { name: "Forecast: $550" });
+    expect(forecast.querySelector("path")).toHaveAttribute("fill", "#8b5cf6");
+    // No img ancestor, whose presentational children would hide the name
+    expect(forecast.parentElement!.closest("[role='img']")).toBeNull();
+  });
+
+  it("renders the label of the deprecated single marker", () => {
+    render(
+      <GaugeMulti
+        data={sampleData}
+        category="name"
+        value="amount"
+        marker={{ value: 300, label: "Target" }}
+      />,
+    );
+    expect(screen.getByText("Target")).toBeInTheDocument();
+  });
+
+  it("shows a tooltip when hovering a marker", () => {
+    render(
+      <GaugeMulti
+        data={sampleData}
+        category="name"
+        value="amount"
+        markers={[{ value: 500, label: "Last year" }]}
+      />,
+    );
+    fireEvent.mouseEnter(screen.getByTestId("marker-0"));
+    // Label on the arc plus the tooltip
+    expect(screen.getAllByText("Last year")).toHaveLength(2);
+    expect(screen.getByText("500")).toBeInTheDocument();
+    fireEvent.mouseLeave(screen.getByTestId("marker-0"));
+    expect(screen.getAllByText("Last year")).toHaveLength(1);
+  });
+
+  it("draws a closed ring with a centered label for arcSpan 360", () => {
+    const { container } = render(
+      <GaugeMulti
+        data={sampleData}
+        category="name"
+        value="amount"
+        label="Total"
+        arcSpan={360}
+      />,
+    );
+    const track = container.querySelector("path")!;
+    expect(track).toHaveAttribute("stroke-linecap", "butt");
+    const [, y, , height] = container
+      .querySelector("svg")!
+      .getAttribute("viewBox")!
+      .split(" ")
+      .map(Number);
+    // The ring is centered in its viewBox
+    expect(y + height / 2).toBeCloseTo(100);
+  });
+
   it("does not render marker when not provided", () => {
     const { container } = render(
       <GaugeMulti data={sampleData} category="name" value="amount" />,
@@ -100,6 +174,7 @@ describe("GaugeMulti", () => {
         category="name"
         value="amount"
         label="Total"
+        showAnimation={false}
       />,
     );
     expect(screen.getByText("Total")).toBeInTheDocument();
@@ -115,6 +190,7 @@ describe("GaugeMulti", () => {
         value="amount"
         label="Revenue"
         valueFormatter={(v) => `$${v}`}
+        showAnimation={false}
       />,
     );
     expect(screen.getByText("$600")).toBeInTheDocument();
@@ -162,4 +238,87 @@ describe("GaugeMulti", () => {
       expect(seg.getAttribute("class")).not.toContain("opacity-30");
     }
   });
+
+  it("renders custom layers with a scale over the data total", () => {
+    const renderSpy = vi.fn(({ scale }) => {
+      const p = scale.valueToPoint(scale.max);
+      return <circle data-testid="end-dot" cx={p.x} cy={p.y} r={2} />;
+    });
+    render(
+      <GaugeMulti
+        data={sampleData}
+        category="name"
+        value="amount"
+        layers={[{ position: "afterTrack", render: renderSpy }]}
+      />,
+    );
+    expect(screen.getByTestId("end-dot")).toBeInTheDocument();
+    expect(renderSpy.mock.calls[0][0].value).toBe(600);
+  });
+
+  it("lays segments out counterclockwise from the right end", () => {
+    const renderSpy = vi.fn((_context: GaugeLayerContext) => null);
+    const { container } = render(
+      <GaugeMulti
+        data={sampleData}
+        category="name"
+        value="amount"
+        direction="counterclockwise"
+        showAnimation={false}
+        layers={[{ position: "afterTrack", render: renderSpy }]}
+      />,
+    );
+    const [, sales] = container.querySelectorAll("path");
+    const n = sales.getAttribute("d")!.match(/-?[\d.]+/g)!.map(Number);
+    // Sales is the first 75% of the arc, ending at 3 o'clock
+    expect(n[n.length - 2]).toBeGreaterThan(180);
+    expect(n[n.length - 1]).toBeCloseTo(100);
+    expect(n[0]).toBeLessThan(100);
+    const { scale } = renderSpy.mock.calls[0][0];
+    expect(scale.valueToAngle(0)).toBe(90);
+    expect(scale.valueToAngle(600)).toBe(-90);
+  });
+});
+
+describe("GaugeMulti animation", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({
+      toFake: ["requestAnimationFrame", "cancelAnimationFrame"],
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("counts the center total along with the segments", () => {
+    const onAnimationEnd = vi.fn();
+    render(
+      <GaugeMulti
+        data={sampleData}
+        category="name"
+        value="amount"
+        label="Total"
+        animationDuration={400}
+        animationEasing="linear"
+        onAnimationEnd={onAnimationEnd}
+      />,
+    );
+    expect(screen.getByText("0")).toBeInTheDocument();
+    act(() => {
+      vi.advanceTimersByTime(16);
+    });
+    act(() => {
+      vi.advanceTimersByTime(200);
+    });
+    const shown = Number(screen.getByText(/^\d+$/).textContent);
+    expect(shown).toBeGreaterThan(200);
+    expect(shown).toBeLessThan(400);
+    expect(onAnimationEnd).not.toHaveBeenCalled();
+    act(() => {
+      vi.advanceTimersByTime(400);
+    });
+    expect(screen.getByText("600")).toBeInTheDocument();
+    expect(onAnimationEnd).toHaveBeenCalledTimes(1);
+  });
 });
@@ -1,13 +1,40 @@
 "use client";
 
-import React, { useState, useCallback, useLayoutEffect } from "react";
+import React, { useState, useCallback } from "react";
 import { cx } from "../../utils/cx";
+import { type Color, getColorValue } from "../../utils/chartColors";
 import {
-  type Color,
-  getColorValue,
-  availableColors,
-} from "../../utils/chartColors";
-import { getArcDash, getSegmentArcs, getNeedleAngle } from "../../utils/arc";
+  getArcPath,
+  getSegmentPaths,
+  getStartAngle,
+  getArcStart,
+  getArcBounds,
+  clampArcSpan,
+  isBottomOpening,
+  type GaugeDirection,
+  type GaugeOrientation,
+} from "../../utils/arc";
+import {
+  type GaugeMarker,
+  getMarkerBounds,
+  getMarkerShape,
+  layoutMarkers,
+} from "../../utils/markers";
+import { getTextBox, padBox, unionBoxes } from "../../utils/labels";
+import { createGaugeScale } from "../../utils/gaugeScale";
+import { getClassNames, getDefaultColors } from "../../utils/styling";
+import { type GaugeEasing, roundToPrecisionOf } from "../../utils/animation";
+import { useAnimatedValues } from "../../hooks/useAnimatedValue";
+import {
+  type GaugeLayer,
+  type GaugeLayerContext,
+  type GaugeLayerPosition,
+  getLayersAt,
+} from "../../utils/layers";
+import {
+  themeColorProps,
+  useGaugeTheme,
+} from "../GaugeThemeProvider/GaugeThemeProvider";
 
 export interface GaugeMultiDatum {
   [key: string]: string | number;
@@ -20,7 +47,7 @@ export interface GaugeMultiProps {
   category: string;
   /** Key in each datum that holds the numeric value */
   value: string;
-  /** Color tokens, one per data item (cycles if fewer) */
+  /** Colors, one per data item (cycles if fewer) */
   colors?: Color[];
   /** Center label text (e.g. "Total Revenue") */
   label?: string;
@@ -41,14 +68,66 @@ export interface GaugeMultiProps {
   }) => React.ReactNode;
   /** Format values in the default tooltip */
   valueFormatter?: (value: number) => string;
-  /** Optional marker value shown as a tick on the arc */
+  /**
+   * Reference values (budget, forecast, last year…) drawn on the arc, in the
+   * same units as the data. Each label is placed outside the track and the
+   * marker shows a tooltip on hover.
+   *
+   * @example
+   * markers={[
+   *   { value: 8000, label: "Budget" },
+   *   { value: 9500, label: "Forecast", color: "violet", style: "triangle" },
+   * ]}
+   */
+  markers?: GaugeMarker[];
+  /**
+   * Single marker shown as a tick on the arc.
+   * @deprecated Use `markers` instead.
+   */
   marker?: { value: number; label?: string };
-  /** Arc span in degrees (default: 180) */
-  arcSpan?: 180 | 240 | 270;
+  /**
+   * Arc span in degrees, anywhere from 1 to 360 (default: 180). `360` draws
+   * a closed donut-style ring starting at 12 o'clock.
+   */
+  arcSpan?: number;
+  /** Side of the gauge the arc's opening faces (default: "bottom") */
+  orientation?: GaugeOrientation;
+  /**
+   * Angle where the arc starts, in degrees clockwise from 12 o'clock.
+   * Overrides `orientation`.
+   */
+  startAngle?: number;
+  /**
+   * Which way the segments run around the arc (default: "clockwise").
+   * Counterclockwise lays them out from the arc's other end, or
+   * counterclockwise from `startAngle` when it's set.
+   */
+  direction?: GaugeDirection;
   /** Stroke width (default: 12) */
   strokeWidth?: number;
-  /** Show animation (default: true) */
+  /**
+   * Animate the segments and the center total on mount and whenever the
+   * data changes (default: true)
+   */
   showAnimation?: boolean;
+  /** Length of each animation in ms (default: 1000) */
+  animationDuration?: number;
+  /** Timing curve, as in `GaugeChart` (default: `"ease-out"`) */
+  animationEasing?: GaugeEasing;
+  /** Wait before each animation starts, in ms (default: 0) */
+  animationDelay?: number;
+  /** Called when an animation starts moving */
+  onAnimationStart?: () => void;
+  /** Called when an animation settles on the new data */
+  onAnimationEnd?: () => void;
+  /**
+   * Custom SVG drawn inside the gauge at a stacking position relative to
+   * the track and segments (`"afterFill"` is above the segments). The
+   * layer scale runs from 0 to the data total.
+   */
+  layers?: GaugeLayer[];
+  /** Shorthand for a single `"foreground"` layer */
+  renderLayer?: GaugeLayer["render"];
   /** Additional class name */
   className?: string;
 }
@@ -58,61 +137,103 @@ const CX = SIZE / 2;
 const CY = SIZE / 2;
 
 export const GaugeMulti = React.forwardRef<SVGSVGElement, GaugeMultiProps>(
-  (
-    {
+  (props, ref) => {
+    const theme = useGaugeTheme();
+    const cls = getClassNames(theme.styling);
+    const {
       data,
       category,
       value,
-      colors = availableColors,
+      colors = theme.colors ?? getDefaultColors(theme.styling),
       label,
       showTooltip = true,
       onValueChange,
       activeName,
       customTooltip,
-      valueFormatter = (v) => `${v}`,
+      valueFormatter = theme.valueFormatter ?? ((v: number) => `${v}`),
+      markers,
       marker,
-      arcSpan = 180,
-      strokeWidth = 12,
-      showAnimation = true,
+      arcSpan: arcSpanProp = theme.arcSpan ?? 180,
+      orientation = "bottom",
+      startAngle,
+      direction = "clockwise",
+      strokeWidth = theme.strokeWidth ?? 12,
+      showAnimation = theme.showAnimation ?? true,
+      animationDuration = theme.animationDuration,
+      animationEasing = theme.animationEasing,
+      animationDelay = theme.animationDelay,
+      onAnimationStart,
+      onAnimationEnd,
+      layers,
+      renderLayer,
       className,
-    },
-    ref,
-  ) => {
-    const [mounted, setMounted] = useState(!showAnimation);
-    useLayoutEffect(() => {
-      if (!showAnimation) return;
-      const id = requestAnimationFrame(() => setMounted(true));
-      return () => cancelAnimationFrame(id);
-    }, []); // eslint-disable-line react-hooks/exhaustive-deps
+    } = props;
 
     // Internal click selection (used when activeName is not controlled externally)
     const [clickedIndex, setClickedIndex] = useState<number | null>(null);
     // Hover state — only for tooltip, separate from highlight
     const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+    const [hoverMarkerIndex, setHoverMarkerIndex] = useState<number | null>(
+      null,
+    );
     const [tooltipPos, setTooltipPos] = useState<{
       x: number;
       y: number;
     } | null>(null);
 
+    const arcSpan = clampArcSpan(arcSpanProp);
+    const start = startAngle ?? getStartAngle(arcSpan, orientation, direction);
+    const arcStart = getArcStart(arcSpan, start, direction);
+
     const radius = (SIZE - strokeWidth * 2) / 2;
     const total = data.reduce(
       (sum, d) => sum + (Number(d[value]) || 0),
       0,
     );
+    // Segments share the arc as fractions of the total
+    const gaugeScale = createGaugeScale({
+      min: 0,
+      max: total,
+      arcSpan,
+      startAngle: start,
+      direction,
+      cx: CX,
+      cy: CY,
+      radius,
+    });
     const fractions = data.map((d) =>
-      total === 0 ? 0 : (Number(d[value]) || 0) / total,
+      gaugeScale.valueToFraction(Number(d[value]) || 0),
     );
 
     // Background track
-    const track = getArcDash(radius, arcSpan, 1);
-    const rotationDeg = track.rotationDeg;
+    const trackPath = getArcPath(CX, CY, radius, arcSpan, 0, 1, arcStart);
 
-    // Per-segment arcs — start at zero and animate to real values
-    const zeroFractions = data.map(() => 0);
-    const segments = getSegmentArcs(
+    // Per-segment arcs and the center total — start at zero and animate to
+    // real values in one tween, so the total counts along with the arc
+    const animated = useAnimatedValues([...fractions, total], {
+      animate: showAnimation,
+      from: [...data.map(() => 0), 0],
+      duration: animationDuration,
+      easing: animationEasing,
+      delay: animationDelay,
+      onStart: onAnimationStart,
+      onEnd: onAnimationEnd,
+    });
+    const animatedFractions = animated.slice(0, -1);
+    const animatedTotal = animated[animated.length - 1];
+    const displayTotal =
+      animatedTotal === total
+        ? total
+        : roundToPrecisionOf(animatedTotal, total);
+    const segments = getSegmentPaths(
+      CX,
+      CY,
       radius,
       arcSpan,
-      mounted ? fractions : zeroFractions,
+      animatedFractions,
+      0,
+      start,
+      direction,
     );
 
     // Resolve which segment index is "active" for highlight purposes
@@ -141,9 +262,9 @@ export const GaugeMulti = React.forwardRef<SVGSVGElement, GaugeMultiProps>(
     );
 
     const handleMouseEnter = useCallback(
-      (e: React.MouseEvent<SVGCircleElement>, index: number) => {
+      (e: React.MouseEvent<SVGElement>, index: number) => {
         if (!showTooltip) return;
-        const svg = (e.target as SVGCircleElement).closest("svg");
+        const svg = (e.target as SVGElement).closest("svg");
         if (!svg) return;
         const rect = svg.getBoundingClientRect();
         setTooltipPos({
@@ -156,9 +277,9 @@ export const GaugeMulti = React.forwardRef<SVGSVGElement, GaugeMultiProps>(
     );
 
     const handleMouseMove = useCallback(
-      (e: React.MouseEvent<SVGCircleElement>) => {
+      (e: React.MouseEvent<SVGElement>) => {
         if (!showTooltip) return;
-        const svg = (e.target as SVGCircleElement).closest("svg");
+        const svg = (e.target as SVGElement).closest("svg");
         if (!svg) return;
         const rect = svg.getBoundingClientRect();
         setTooltipPos({
@@ -172,51 +293,117 @@ export const GaugeMulti = React.forwardRef<SVGSVGElement, GaugeMultiProps>(
     const handleMouseLeave = useCallback(() => {
       setTooltipPos(null);
       setHoverIndex(null);
+      setHoverMarkerIndex(null);
     }, []);
 
-    // Tooltip shows for hover OR active segment
-    const tooltipIndex = hoverIndex ?? resolvedActiveIndex;
+    const handleMarkerEnter = useCallback(
+      (e: React.MouseEvent<SVGElement>, index: number) => {
+        handleMouseEnter(e, index);
+        setHoverIndex(null);
+        if (showTooltip) setHoverMarkerIndex(index);
+      },
+      [handleMouseEnter, showTooltip],
+    );
 
-    // Marker
-    const markerAngle =
-      marker !== undefined
-        ? getNeedleAngle(marker.value, 0, total, arcSpan)
-        : null;
+    // Tooltip shows for a hovered marker, else hovered OR active segment
+    const tooltipIndex =
+      hoverMarkerIndex !== null ? null : (hoverIndex ?? resolvedActiveIndex);
+
+    // Markers — the deprecated single `marker` is appended to the list
+    const allMarkers: GaugeMarker[] = [
+      ...(markers ?? []),
+      ...(marker ? [marker] : []),
+    ];
+    const markerFontSize = 10;
+    const markerLayout =
+      allMarkers.length > 0 && total > 0
+        ? layoutMarkers({
+            markers: allMarkers,
+            cx: CX,
+            cy: CY,
+            radius,
+            strokeWidth,
+            fontSize: markerFontSize,
+            getAngle: gaugeScale.valueToAngle,
+          })
+        : [];
+    const hoveredMarker =
+      hoverMarkerIndex !== null ? markerLayout[hoverMarkerIndex] : undefined;
 
     // Center label positioning (computed first so viewBox can account for it)
     const valueFontSize = 26;
     const labelFontSize = 12;
-    const centerValueY = arcSpan <= 180 ? CY - 4 : CY + 2;
-    const centerLabelY = centerValueY + valueFontSize * 0.7 + 2;
+    const labelGap = valueFontSize * 0.7 + 2;
+    const centerValueY = !isBottomOpening(arcSpan, arcStart)
+      ? CY - labelGap / 2
+      : arcSpan <= 180
+        ? CY - 4
+        : CY + 2;
+    const centerLabelY = centerValueY + labelGap;
 
     // ViewBox sizing — account for center label bottom edge
-    const arcBottom = arcSpan <= 180 ? CY + strokeWidth + 8 : SIZE;
-    const centerLabelBottom = label ? centerLabelY + labelFontSize : 0;
-    const viewBoxHeight = Math.max(arcBottom, centerLabelBottom);
+    // Fit the painted arc, the center label and markers outside the track
+    const viewBox = unionBoxes([
+      padBox(getArcBounds(CX, CY, radius, arcSpan, arcStart), strokeWidth),
+      ...(label
+        ? [
+            getTextBox(CX, centerValueY, valueFormatter(total), valueFontSize, "middle"),
+            getTextBox(CX, centerLabelY, label, labelFontSize, "middle"),
+          ].map((b) => padBox(b, 4))
+        : []),
+      ...getMarkerBounds(markerLayout),
+    ]);
+
+    // ── Custom layers ──────────────────────────────────────────────
+    const layerContext: GaugeLayerContext = {
+      cx: CX,
+      cy: CY,
+      radius,
+      strokeWidth,
+      scale: gaugeScale,
+      value: total,
+      // The highlighted segment's color, else the first segment's
+      fillColor: getColorValue(
+        colors[(resolvedActiveIndex ?? 0) % colors.length],
+      ),
+      getColor: getColorValue,
+      viewBox,
+    };
+    const renderLayers = (position: GaugeLayerPosition) =>
+      getLayersAt(position, layers, renderLayer).map((render, i) => (
+        <React.Fragment key={`${position}-${i}`}>
+          {render(layerContext)}
+        </React.Fragment>
+      ));
 
     return (
-      <div className={cx("relative", className)}>
+      <div
+        className={cx(cls.container, className)}
+        style={
+          theme.fontFamily ? { fontFamily: theme.fontFamily } : undefined
+        }
+      >
         <svg
           ref={ref}
-          viewBox={`0 0 ${SIZE} ${viewBoxHeight}`}
-          className="w-full"
-          role="img"
+          viewBox={`${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`}
+          className={cls.root}
+          // A group, not an img, so the markers' own names stay exposed
+          role="group"
           aria-label="Multi-segment gauge"
         >
+          {renderLayers("beforeTrack")}
+
           {/* Background track */}
-          <circle
-            cx={CX}
-            cy={CY}
-            r={radius}
+          <path
+            d={trackPath}
             fill="none"
-            className="stroke-gray-200 dark:stroke-gray-800"
+            {...themeColorProps(theme.trackColor, "stroke", cls.track)}
             strokeWidth={strokeWidth}
-            strokeLinecap="round"
-            strokeDasharray={track.dashArray}
-            strokeDashoffset={track.dashOffset}
-            transform={`rotate(${rotationDeg} ${CX} ${CY})`}
+            strokeLinecap={arcSpan >= 360 ? "butt" : "round"}
           />
 
+          {renderLayers("afterTrack")}
+
           {/* Segments */}
           {segments.map((seg, i) => {
             const segColor = colors[i % colors.length];
@@ -224,29 +411,13 @@ export const GaugeMulti = React.forwardRef<SVGSVGElement, GaugeMultiProps>(
               resolvedActiveIndex === null || resolvedActiveIndex === i;
 
             return (
-              <circle
+              <path
                 key={`${data[i][category]}`}
-                cx={CX}
-                cy={CY}
-                r={radius}
+                d={seg.d}
                 fill="none"
                 stroke={getColorValue(segColor)}
                 strokeWidth={strokeWidth}
-                strokeDasharray={seg.dashArray}
-                strokeDashoffset={seg.dashOffset}
-                transform={`rotate(${rotationDeg} ${CX} ${CY})`}
-                className={cx(
-                  "cursor-pointer transition-opacity duration-150",
-                  !isActive && "opacity-30",
-                )}
-                style={
-                  showAnimation
-                    ? {
-                        transition:
-                          "stroke-dasharray 1s ease-out, stroke-dashoffset 1s ease-out, opacity 0.15s ease",
-                      }
-                    : undefined
-                }
+                className={cx(cls.segment, !isActive && cls.inactive)}
                 onClick={() => handleSegmentClick(i)}
                 onMouseEnter={(e) => handleMouseEnter(e, i)}
                 onMouseMove={handleMouseMove}
@@ -256,19 +427,66 @@ export const GaugeMulti = React.forwardRef<SVGSVGElement, GaugeMultiProps>(
             );
           })}
 
-          {/* Marker tick */}
-          {markerAngle !== null && (
-            <line
-              x1={CX}
-              y1={CY - radius + strokeWidth / 2 + 2}
-              x2={CX}
-              y2={CY - radius - strokeWidth / 2 - 2}
-              className="stroke-gray-700 dark:stroke-gray-200"
-              strokeWidth={2.5}
-              strokeLinecap="round"
-              transform={`rotate(${markerAngle} ${CX} ${CY})`}
-            />
-          )}
+          {renderLayers("afterFill")}
+
+          {/* Markers */}
+          {markerLayout.map(({ marker: m, angle, label: markerLabel }, i) => {
+            const shape = getMarkerShape(
+              CX,
+              CY,
+              radius,
+              strokeWidth,
+              m.style,
+            );
+            const name = `${m.label ?? "Marker"}: ${valueFormatter(m.value)}`;
+            return (
+              <g
+                key={i}
+                role="img"
+                aria-label={name}
+                className={cls.marker}
+                onMouseEnter={(e) => handleMarkerEnter(e, i)}
+                onMouseMove={handleMouseMove}
+                onMouseLeave={handleMouseLeave}
+                data-testid={`marker-${i}`}
+              >
+                <title>{name}</title>
+                {shape.type === "line" ? (
+                  <line
+                    x1={shape.x1}
+                    y1={shape.y1}
+                    x2={shape.x2}
+                    y2={shape.y2}
+                    {...themeColorProps(m.color, "stroke", cls.markerStroke)}
+                    strokeWidth={2.5}
+                    strokeLinecap="round"
+                    transform={`rotate(${angle} ${CX} ${CY})`}
+                  />
+                ) : (
+                  <path
+                    d={shape.d}
+                    {...themeColorProps(m.color, "fill", cls.markerFill)}
+                    transform={`rotate(${angle} ${CX} ${CY})`}
+                  />
+                )}
+                {markerLabel && (
+                  <text
+                    x={markerLabel.x}
+                    y={markerLabel.y}
+                    textAnchor={markerLabel.anchor}
+                    dominantBaseline="central"
+                    {...themeColorProps(m.color, "fill", cls.markerLabel)}
+                    style={{
+                      fontSize: `${markerFontSize}px`,
+                      fontWeight: 500,
+                    }}
+                  >
+                    {m.label}
+                  </text>
+                )}
+              </g>
+            );
+          })}
 
           {/* Center label */}
           {label && (
@@ -278,33 +496,72 @@ export const GaugeMulti = React.forwardRef<SVGSVGElement, GaugeMultiProps>(
                 y={centerValueY}
                 textAnchor="middle"
                 dominantBaseline="central"
-                className="fill-gray-900 dark:fill-gray-50"
+                {...themeColorProps(theme.valueColor, "fill", cls.value)}
                 style={{
                   fontSize: `${valueFontSize}px`,
                   fontWeight: 600,
                   fontVariantNumeric: "tabular-nums",
                 }}
               >
-                {valueFormatter(total)}
+                {valueFormatter(displayTotal)}
               </text>
               <text
                 x={CX}
                 y={centerLabelY}
                 textAnchor="middle"
                 dominantBaseline="central"
-                className="fill-gray-500 dark:fill-gray-500"
+                {...themeColorProps(theme.labelColor, "fill", cls.label)}
                 style={{ fontSize: `${labelFontSize}px`, fontWeight: 500 }}
               >
                 {label}
               </text>
             </>
           )}
+
+          {renderLayers("foreground")}
         </svg>
 
+        {/* Marker tooltip */}
+        {showTooltip && hoveredMarker && tooltipPos && (
+          <div
+            className={cls.tooltip}
+            style={{
+              left: tooltipPos.x,
+              top: tooltipPos.y - 44,
+              transform: "translateX(-50%)",
+            }}
+          >
+            <div className={cls.tooltipRow}>
+              <span
+                className={cx(
+                  cls.tooltipMarkerSwatch,
+                  !hoveredMarker.marker.color &&
+                    cls.tooltipMarkerSwatchDefault,
+                )}
+                style={
+                  hoveredMarker.marker.color
+                    ? {
+                        backgroundColor: getColorValue(
+                          hoveredMarker.marker.color,
+                        ),
+                      }
+                    : undefined
+                }
+              />
+              <span className={cls.tooltipLabel}>
+                {hoveredMarker.marker.label ?? "Marker"}
+              </span>
+              <span className={cls.tooltipValue}>
+                {valueFormatter(hoveredMarker.marker.value)}
+              </span>
+            </div>
+          </div>
+        )}
+
         {/* Tooltip */}
         {showTooltip && tooltipIndex !== null && tooltipPos && (
           <div
-            className="pointer-events-none absolute z-10 rounded-md border border-gray-200 bg-white px-3 py-1.5 text-sm shadow-sm dark:border-gray-800 dark:bg-gray-950"
+            className={cls.tooltip}
             style={{
               left: tooltipPos.x,
               top: tooltipPos.y - 44,
@@ -317,19 +574,19 @@ export const GaugeMulti = React.forwardRef<SVGSVGElement, GaugeMultiProps>(
                 color: colors[tooltipIndex % colors.length],
               })
             ) : (
-              <div className="flex items-center gap-2 whitespace-nowrap">
+              <div className={cls.tooltipRow}>
                 <span
-                  className="size-2.5 shrink-0 rounded-sm"
+                  className={cls.tooltipSwatch}
                   style={{
                     backgroundColor: getColorValue(
                       colors[tooltipIndex % colors.length],
                     ),
                   }}
                 />
-                <span className="text-gray-500 dark:text-gray-500">
+                <span className={cls.tooltipLabel}>
                   {String(data[tooltipIndex][category])}
                 </span>
-                <span className="font-medium tabular-nums text-gray-900 dark:text-gray-50">
+                <span className={cls.tooltipValue}>
                   {valueFormatter(Number(data[tooltipIndex][value]))}
                 </span>
               </div>
@@ -0,0 +1,85 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import { useState } from "react";
+import { GaugeRings, getRingColor } from "./GaugeRings";
+import { GaugeLegend } from "../GaugeLegend/GaugeLegend";
+
+const meta: Meta<typeof GaugeRings> = {
+  title: "Components/GaugeRings",
+  component: GaugeRings,
+  tags: ["autodocs"],
+  parameters: { docs: { source: { excludeDecorators: true } } },
+  decorators: [
+    (Story) => (
+      <div className="mx-auto max-w-xs rounded-lg border border-gray-200 bg-white p-6 shadow-sm dark:border-gray-800 dark:bg-gray-950">
+        <Story />
+      </div>
+    ),
+  ],
+  argTypes: {
+    arcSpan: { control: { type: "range", min: 1, max: 360 } },
+    orientation: { control: "select", options: ["bottom", "top", "left", "right"] },
+    strokeWidth: { control: { type: "range", min: 4, max: 24, step: 2 } },
+    ringGap: { control: { type: "range", min: 0, max: 12 } },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof GaugeRings>;
+
+const data = [
+  { name: "CPU", value: 72, color: "blue" as const, label: "CPU" },
+  { name: "Memory", value: 11.2, max: 16, color: "violet" as const, label: "MEM" },
+  {
+    name: "Disk",
+    value: 91,
+    label: "DISK",
+    thresholds: [
+      { value: 0, color: "emerald" as const },
+      { value: 80, color: "pink" as const },
+    ],
+  },
+];
+
+export const Default: Story = {
+  args: {
+    data,
+    label: "Server 01",
+  },
+};
+
+export const HalfArc: Story = {
+  name: "180-degree arc",
+  args: {
+    data,
+    arcSpan: 180,
+    strokeWidth: 12,
+  },
+};
+
+export const WithLegend: Story = {
+  name: "Synced with legend",
+  render: function Render(args) {
+    const [active, setActive] = useState<string | undefined>();
+    return (
+      <div className="flex flex-col gap-4">
+        <GaugeRings
+          {...args}
+          data={data}
+          activeName={active}
+          onValueChange={(d) => setActive(d ? d.name : undefined)}
+        />
+        <GaugeLegend
+          items={data.map((d, i) => ({
+            name: d.name,
+            value: d.value,
+            color: getRingColor(d, i),
+          }))}
+          activeName={active}
+          onItemClick={(name) =>
+            setActive(active === name ? undefined : name)
+          }
+        />
+      </div>
+    );
+  },
+};
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { GaugeRings, getRingColor } from "./GaugeRings";
+
+const sampleData = [
+  { name: "CPU", value: 72, color: "blue" as const },
+  { name: "Memory", value: 6, max: 16, color: "violet" as const },
+  {
+    name: "Disk",
+    value: 91,
+    thresholds: [
+      { value: 0, color: "emerald" as const },
+      { value: 80, color: "pink" as const },
+    ],
+  },
+];
+
+describe("GaugeRings", () => {
+  it("renders an SVG with an accessible summary", () => {
+    render(<GaugeRings data={sampleData} />);
+    expect(
+      screen.getByRole("img", {
+        name: "Ring gauge: CPU 72, Memory 6, Disk 91",
+      }),
+    ).toBeInTheDocument();
+  });
+
+  it("renders a track and fill per ring with decreasing radii", () => {
+    const { container } = render(
+      <GaugeRings data={sampleData} showAnimation={false} />,
+    );
+    expect(container.querySelectorAll("path")).toHaveLength(6);
+    // The arc radius is the first number after the `A` command
+    const radii = [0, 1, 2].map((i) =>
+      Number(
+        screen.getByTestId(`ring-fill-${i}`).getAttribute("d")!.split(" ")[4],
+      ),
+    );
+    expect(radii[0]).toBeGreaterThan(radii[1]);
+    expect(radii[1]).toBeGreaterThan(radii[2]);
+  });
+
+  it("colors rings by color or thresholds", () => {
+    render(<GaugeRings data={sampleData} />);
+    expect(screen.getByTestId("ring-fill-0")).toHaveAttribute(
+      "stroke",
+      "#3b82f6",
+    );
+    expect(screen.getByTestId("ring-fill-2")).toHaveAttribute(
+      "stroke",
+      "#ec4899",
+    );
+  });
+
+  it("colors rings by inverted thresholds", () => {
+    const latency = {
+      name: "Latency",
+      value: 350,
+      max: 1000,
+      thresholds: [
+        { value: 200, color: "emerald" as const },
+        { value: 500, color: "amber" as const },
+      ],
+      invert: true,
+    };
+    expect(getRingColor(latency, 0)).toBe("amber");
+    render(<GaugeRings data={[latency]} />);
+    expect(screen.getByTestId("ring-fill-0")).toHaveAttribute(
+      "stroke",
+      "#f59e0b",
+    );
+  });
+
+  it("uses each ring's own min/max for the fill", () => {
+    render(<GaugeRings data={sampleData} showAnimation={false} />);
+    // Memory: 6 of 16 = 37.5% of the ring, from 12 o'clock to 4:30
+    const d = screen.getByTestId("ring-fill-1").getAttribute("d")!;
+    const [, , , , radius, , , , , x, y] = d.split(" ").map(Number);
+    expect(x - 100).toBeCloseTo(radius * Math.SQRT1_2, 2);
+    expect(y - 100).toBeCloseTo(radius * Math.SQRT1_2, 2);
+  });
+
+  it("highlights a clicked ring and reports it", () => {
+    const onChange = vi.fn();
+    render(<GaugeRings data={sampleData} onValueChange={onChange} />);
+    fireEvent.click(screen.getByTestId("ring-1"));
+    expect(onChange).toHaveBeenCalledWith(sampleData[1]);
+    expect(screen.getByTestId("ring-0").getAttribute("class")).toContain(
+      "opacity-30",
+    );
+    expect(screen.getByTestId("ring-1").getAttribute("class")).not.toContain(
+      "opacity-30",
+    );
+    // Center shows the highlighted ring
+    expect(screen.getByText("Memory")).toBeInTheDocument();
+    fireEvent.click(screen.getByTestId("ring-1"));
+    expect(onChange).toHaveBeenLastCalledWith(null);
+  });
+
+  it("dims non-active rings when activeName is set", () => {
+    render(<GaugeRings data={sampleData} activeName="Disk" />);
+    expect(screen.getByTestId("ring-0").getAttribute("class")).toContain(
+      "opacity-30",
+    );
+    expect(screen.getByTestId("ring-2").getAttribute("class")).not.toContain(
+      "opacity-30",
+    );
+  });
+
+  it("renders ring labels and the center label", () => {
+    render(
+      <GaugeRings
+        data={[
+          { name: "Move", value: 40, label: "MOVE" },
+          { name: "Exercise", value: 80, label: "EX" },
+        ]}
+        label="Today"
+      />,
+    );
+    expect(screen.getByText("MOVE")).toBeInTheDocument();
+    expect(screen.getByText("EX")).toBeInTheDocument();
+    expect(screen.getByText("Today")).toBeInTheDocument();
+  });
+
+  it("shows a tooltip on hover", () => {
+    render(
+      <GaugeRings data={sampleData} valueFormatter={(v) => `${v}%`} />,
+    );
+    fireEvent.mouseEnter(screen.getByTestId("ring-0"));
+    expect(screen.getByText("CPU")).toBeInTheDocument();
+    expect(screen.getByText("72%")).toBeInTheDocument();
+  });
+
+  it("forwards ref to the SVG element", () => {
+    const ref = { current: null as SVGSVGElement | null };
+    render(<GaugeRings ref={ref} data={sampleData} />);
+    expect(ref.current).toBeInstanceOf(SVGSVGElement);
+  });
+});
+
+describe("getRingColor", () => {
+  it("matches the ring's drawn color for legend items", () => {
+    expect(getRingColor(sampleData[0], 0)).toBe("blue");
+    expect(getRingColor(sampleData[2], 2)).toBe("pink");
+    expect(getRingColor({ name: "X", value: 1 }, 1, ["cyan", "lime"])).toBe(
+      "lime",
+    );
+  });
+});
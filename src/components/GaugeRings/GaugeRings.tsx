@@ -0,0 +1,405 @@
+"use client";
+
+import React, { useState, useCallback } from "react";
+import { cx } from "../../utils/cx";
+import {
+  type Color,
+  getColorValue,
+  availableColors,
+} from "../../utils/chartColors";
+import {
+  getArcPath,
+  getStartAngle,
+  getArcBounds,
+  clampArcSpan,
+  degToRad,
+  polarToCartesian,
+  type GaugeOrientation,
+} from "../../utils/arc";
+import {
+  type TextAnchor,
+  getTextBox,
+  padBox,
+  unionBoxes,
+} from "../../utils/labels";
+import { type GaugeThreshold, resolveColor } from "../../utils/thresholds";
+import { getValueScale } from "../../utils/scale";
+import { getClassNames, getDefaultColors } from "../../utils/styling";
+import { useAnimatedValues } from "../../hooks/useAnimatedValue";
+import {
+  themeColorProps,
+  useGaugeTheme,
+} from "../GaugeThemeProvider/GaugeThemeProvider";
+
+export interface GaugeRingDatum {
+  /** Ring name, used for highlighting, tooltips and legend sync */
+  name: string;
+  /** Current value */
+  value: number;
+  /** Minimum value (default: 0) */
+  min?: number;
+  /** Maximum value (default: 100) */
+  max?: number;
+  /** Ring color (default: cycles through `colors`) */
+  color?: Color;
+  /** Value-based color zones; the fill takes the highest zone reached */
+  thresholds?: GaugeThreshold[];
+  /** Read `thresholds` as "lower is better", as on `GaugeChart` */
+  invert?: boolean;
+  /** Short label drawn beside the start of the ring */
+  label?: string;
+}
+
+export interface GaugeRingsProps {
+  /** One entry per ring, outermost first */
+  data: GaugeRingDatum[];
+  /** Fallback colors for rings without `color` (cycles if fewer) */
+  colors?: Color[];
+  /** Center label text shown when no ring is highlighted */
+  label?: string;
+  /** Show a tooltip on hover (default: true) */
+  showTooltip?: boolean;
+  /** Called when a ring is clicked or deselected (null) */
+  onValueChange?: (datum: GaugeRingDatum | null) => void;
+  /**
+   * Externally controlled active/highlighted ring name.
+   * When set, this ring is highlighted and others are dimmed.
+   * Use together with `onValueChange` for bidirectional sync with GaugeLegend.
+   */
+  activeName?: string;
+  /** Format ring values in the tooltip and center label */
+  valueFormatter?: (value: number) => string;
+  /** Arc span in degrees, anywhere from 1 to 360 (default: 360) */
+  arcSpan?: number;
+  /** Side of the gauge the arc's opening faces (default: "bottom") */
+  orientation?: GaugeOrientation;
+  /**
+   * Angle where each ring starts, in degrees clockwise from 12 o'clock.
+   * Overrides `orientation`.
+   */
+  startAngle?: number;
+  /** Stroke width of each ring (default: 10) */
+  strokeWidth?: number;
+  /** Space between adjacent rings (default: 4) */
+  ringGap?: number;
+  /** Show animation (default: true) */
+  showAnimation?: boolean;
+  /** Additional class name */
+  className?: string;
+}
+
+const SIZE = 200;
+const CX = SIZE / 2;
+const CY = SIZE / 2;
+
+/** Color a ring is drawn in, for building matching `GaugeLegend` items */
+export function getRingColor(
+  datum: GaugeRingDatum,
+  index: number,
+  colors: Color[] = availableColors,
+): Color {
+  return resolveColor(
+    datum.value,
+    datum.color ?? colors[index % colors.length],
+    datum.thresholds,
+    undefined,
+    datum.invert,
+  );
+}
+
+export const GaugeRings = React.forwardRef<SVGSVGElement, GaugeRingsProps>(
+  (props, ref) => {
+    const theme = useGaugeTheme();
+    const cls = getClassNames(theme.styling);
+    const {
+      data,
+      colors = theme.colors ?? getDefaultColors(theme.styling),
+      label,
+      showTooltip = true,
+      onValueChange,
+      activeName,
+      valueFormatter = theme.valueFormatter ?? ((v: number) => `${v}`),
+      arcSpan: arcSpanProp = theme.arcSpan ?? 360,
+      orientation = "bottom",
+      startAngle,
+      strokeWidth = theme.strokeWidth ?? 10,
+      ringGap = 4,
+      showAnimation = theme.showAnimation ?? true,
+      className,
+    } = props;
+
+    // Internal click selection (used when activeName is not controlled externally)
+    const [clickedIndex, setClickedIndex] = useState<number | null>(null);
+    // Hover state — only for tooltip, separate from highlight
+    const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+    const [tooltipPos, setTooltipPos] = useState<{
+      x: number;
+      y: number;
+    } | null>(null);
+
+    const arcSpan = clampArcSpan(arcSpanProp);
+    const start = startAngle ?? getStartAngle(arcSpan, orientation);
+    const isRing = arcSpan >= 360;
+
+    // Rings step inward from the outermost radius
+    const outerRadius = (SIZE - strokeWidth * 2) / 2;
+    const fractions = data.map((d) =>
+      getValueScale("linear", d.min ?? 0, d.max ?? 100).toFraction(d.value),
+    );
+    // Fills start at zero and animate to real values
+    const animatedFractions = useAnimatedValues(fractions, {
+      animate: showAnimation,
+      from: data.map(() => 0),
+      duration: theme.animationDuration,
+      easing: theme.animationEasing,
+      delay: theme.animationDelay,
+    });
+    const rings = data.map((d, i) => {
+      const fraction = animatedFractions[i];
+      const radius = Math.max(
+        strokeWidth / 2,
+        outerRadius - i * (strokeWidth + ringGap),
+      );
+      return {
+        datum: d,
+        radius,
+        color: getRingColor(d, i, colors),
+        trackPath: getArcPath(CX, CY, radius, arcSpan, 0, 1, start),
+        fillPath: getArcPath(CX, CY, radius, arcSpan, 0, fraction, start),
+        fraction,
+      };
+    });
+
+    // Resolve which ring index is "active" for highlight purposes
+    const resolvedActiveIndex = (() => {
+      // External control via activeName takes precedence
+      if (activeName !== undefined) {
+        const idx = data.findIndex((d) => d.name === activeName);
+        return idx >= 0 ? idx : null;
+      }
+      // Fall back to internal click state
+      return clickedIndex;
+    })();
+
+    const handleRingClick = useCallback(
+      (index: number) => {
+        const isDeselect = resolvedActiveIndex === index;
+        if (activeName === undefined) {
+          // Uncontrolled: toggle internal state
+          setClickedIndex(isDeselect ? null : index);
+        }
+        onValueChange?.(isDeselect ? null : data[index]);
+      },
+      [resolvedActiveIndex, activeName, data, onValueChange],
+    );
+
+    const updateTooltipPos = useCallback(
+      (e: React.MouseEvent<SVGElement>) => {
+        const svg = (e.target as SVGElement).closest("svg");
+        if (!svg) return;
+        const rect = svg.getBoundingClientRect();
+        setTooltipPos({
+          x: e.clientX - rect.left,
+          y: e.clientY - rect.top,
+        });
+      },
+      [],
+    );
+
+    const handleMouseEnter = useCallback(
+      (e: React.MouseEvent<SVGElement>, index: number) => {
+        if (!showTooltip) return;
+        updateTooltipPos(e);
+        setHoverIndex(index);
+      },
+      [showTooltip, updateTooltipPos],
+    );
+
+    const handleMouseMove = useCallback(
+      (e: React.MouseEvent<SVGElement>) => {
+        if (!showTooltip) return;
+        updateTooltipPos(e);
+      },
+      [showTooltip, updateTooltipPos],
+    );
+
+    const handleMouseLeave = useCallback(() => {
+      setTooltipPos(null);
+      setHoverIndex(null);
+    }, []);
+
+    // Ring labels continue backward past each ring's start, along the tangent
+    const labelFontSize = 10;
+    const ringLabels = rings.map((ring) => {
+      if (!ring.datum.label) return null;
+      const rad = degToRad(start);
+      const dx = -Math.cos(rad);
+      const dy = -Math.sin(rad);
+      const origin = polarToCartesian(CX, CY, ring.radius, start);
+      const offset = strokeWidth / 2 + 4;
+      const x = origin.x + dx * offset;
+      const y = origin.y + dy * offset;
+      const anchor: TextAnchor =
+        dx < -0.3 ? "end" : dx > 0.3 ? "start" : "middle";
+      return {
+        x,
+        y,
+        anchor,
+        text: ring.datum.label,
+        box: getTextBox(x, y, ring.datum.label, labelFontSize, anchor),
+      };
+    });
+
+    // Center shows the highlighted ring, or the static label
+    const activeRing =
+      resolvedActiveIndex !== null ? rings[resolvedActiveIndex] : undefined;
+    const valueFontSize = 22;
+    const centerLabelFontSize = 12;
+    const centerValueY = CY - (activeRing ? 8 : 0);
+    const centerLabelY = activeRing ? centerValueY + 20 : CY;
+
+    // Fit the outermost ring plus ring labels
+    const viewBox = unionBoxes([
+      padBox(
+        getArcBounds(CX, CY, outerRadius, arcSpan, start),
+        strokeWidth,
+      ),
+      ...ringLabels.flatMap((l) => (l ? [padBox(l.box, 2)] : [])),
+    ]);
+
+    const tooltipRing = hoverIndex !== null ? rings[hoverIndex] : undefined;
+
+    return (
+      <div
+        className={cx(cls.container, className)}
+        style={
+          theme.fontFamily ? { fontFamily: theme.fontFamily } : undefined
+        }
+      >
+        <svg
+          ref={ref}
+          viewBox={`${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`}
+          className={cls.root}
+          role="img"
+          aria-label={`Ring gauge: ${data
+            .map((d) => `${d.name} ${valueFormatter(d.value)}`)
+            .join(", ")}`}
+        >
+          {rings.map((ring, i) => {
+            const isActive =
+              resolvedActiveIndex === null || resolvedActiveIndex === i;
+            return (
+              <g
+                key={ring.datum.name}
+                className={cx(cls.segment, !isActive && cls.inactive)}
+                onClick={() => handleRingClick(i)}
+                onMouseEnter={(e) => handleMouseEnter(e, i)}
+                onMouseMove={handleMouseMove}
+                onMouseLeave={handleMouseLeave}
+                data-testid={`ring-${i}`}
+              >
+                {/* Track */}
+                <path
+                  d={ring.trackPath}
+                  fill="none"
+                  {...themeColorProps(theme.trackColor, "stroke", cls.track)}
+                  strokeWidth={strokeWidth}
+                  strokeLinecap={isRing ? "butt" : "round"}
+                />
+                {/* Fill */}
+                <path
+                  d={ring.fillPath}
+                  fill="none"
+                  stroke={getColorValue(ring.color)}
+                  strokeWidth={strokeWidth}
+                  strokeLinecap={
+                    isRing && ring.fraction >= 1 ? "butt" : "round"
+                  }
+                  data-testid={`ring-fill-${i}`}
+                />
+              </g>
+            );
+          })}
+
+          {/* Ring labels */}
+          {ringLabels.map(
+            (l, i) =>
+              l && (
+                <text
+                  key={i}
+                  x={l.x}
+                  y={l.y}
+                  textAnchor={l.anchor}
+                  dominantBaseline="central"
+                  {...themeColorProps(theme.labelColor, "fill", cls.label)}
+                  style={{ fontSize: `${labelFontSize}px`, fontWeight: 500 }}
+                >
+                  {l.text}
+                </text>
+              ),
+          )}
+
+          {/* Center label */}
+          {activeRing && (
+            <text
+              x={CX}
+              y={centerValueY}
+              textAnchor="middle"
+              dominantBaseline="central"
+              {...themeColorProps(theme.valueColor, "fill", cls.value)}
+              style={{
+                fontSize: `${valueFontSize}px`,
+                fontWeight: 600,
+                fontVariantNumeric: "tabular-nums",
+              }}
+            >
+              {valueFormatter(activeRing.datum.value)}
+            </text>
+          )}
+          {(activeRing || label) && (
+            <text
+              x={CX}
+              y={centerLabelY}
+              textAnchor="middle"
+              dominantBaseline="central"
+              {...themeColorProps(theme.labelColor, "fill", cls.label)}
+              style={{
+                fontSize: `${centerLabelFontSize}px`,
+                fontWeight: 500,
+              }}
+            >
+              {activeRing ? activeRing.datum.name : label}
+            </text>
+          )}
+        </svg>
+
+        {/* Tooltip */}
+        {showTooltip && tooltipRing && tooltipPos && (
+          <div
+            className={cls.tooltip}
+            style={{
+              left: tooltipPos.x,
+              top: tooltipPos.y - 44,
+              transform: "translateX(-50%)",
+            }}
+          >
+            <div className={cls.tooltipRow}>
+              <span
+                className={cls.tooltipSwatch}
+                style={{ backgroundColor: getColorValue(tooltipRing.color) }}
+              />
+              <span className={cls.tooltipLabel}>
+                {tooltipRing.datum.name}
+              </span>
+              <span className={cls.tooltipValue}>
+                {valueFormatter(tooltipRing.datum.value)}
+              </span>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  },
+);
+
+GaugeRings.displayName = "GaugeRings";
@@ -0,0 +1,94 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import type { CSSProperties } from "react";
+import { GaugeThemeProvider } from "./GaugeThemeProvider";
+import { GaugeChart } from "../GaugeChart/GaugeChart";
+import { GaugeMulti } from "../GaugeMulti/GaugeMulti";
+import { GaugeLinear } from "../GaugeLinear/GaugeLinear";
+
+const meta: Meta<typeof GaugeThemeProvider> = {
+  title: "Components/GaugeThemeProvider",
+  component: GaugeThemeProvider,
+  tags: ["autodocs"],
+  parameters: { docs: { source: { excludeDecorators: true } } },
+  decorators: [
+    (Story) => (
+      <div className="mx-auto max-w-2xl rounded-lg border border-gray-200 bg-white p-6 shadow-sm dark:border-gray-800 dark:bg-gray-950">
+        <Story />
+      </div>
+    ),
+  ],
+};
+
+export default meta;
+type Story = StoryObj<typeof GaugeThemeProvider>;
+
+const dashboard = (
+  <div className="grid grid-cols-3 items-center gap-6">
+    <GaugeChart value={72} label="CPU" showNeedle />
+    <GaugeMulti
+      data={[
+        { source: "Direct", visits: 4520 },
+        { source: "Search", visits: 2890 },
+        { source: "Referral", visits: 1340 },
+      ]}
+      category="source"
+      value="visits"
+      label="Visits"
+    />
+    <GaugeLinear value={38} label="Disk" />
+  </div>
+);
+
+export const Default: Story = {
+  args: {
+    theme: {
+      colors: ["indigo", "teal", "amber"],
+      color: "indigo",
+      trackColor: "#e2e8f0",
+      labelColor: "slate",
+      valueColor: "#0f172a",
+      needleColor: "#334155",
+      fontFamily: "ui-monospace, monospace",
+      strokeWidth: 14,
+      arcSpan: 240,
+      animationDuration: 600,
+    },
+    children: dashboard,
+  },
+};
+
+export const CssVariables: Story = {
+  name: "CSS variables (no Tailwind)",
+  args: {
+    theme: { styling: "css" },
+    children: (
+      <div
+        style={
+          {
+            "--tremor-gauge-color-1": "#7c3aed",
+            "--tremor-gauge-color-2": "#0d9488",
+            "--tremor-gauge-color-3": "#ea580c",
+            "--tremor-gauge-track": "#ede9fe",
+            "--tremor-gauge-value": "#4c1d95",
+            "--tremor-gauge-font": "Georgia, serif",
+          } as CSSProperties
+        }
+      >
+        {dashboard}
+      </div>
+    ),
+  },
+};
+
+export const Nested = () => (
+  <GaugeThemeProvider theme={{ color: "violet", strokeWidth: 16 }}>
+    <div className="grid grid-cols-3 items-center gap-6">
+      <GaugeChart value={64} label="Outer theme" />
+      <GaugeThemeProvider theme={{ color: "rose", arcSpan: 300 }}>
+        <GaugeChart value={64} label="Nested theme" />
+      </GaugeThemeProvider>
+      <GaugeChart value={64} label="Prop override" color="emerald" />
+    </div>
+  </GaugeThemeProvider>
+);
+Nested.storyName = "Nested providers and prop overrides";
@@ -0,0 +1,230 @@
+import { describe, it, expect } from "vitest";
+import { render, renderHook, screen } from "@testing-library/react";
+import React from "react";
+import { GaugeThemeProvider, useGaugeTheme } from "./GaugeThemeProvider";
+import { GaugeChart } from "../GaugeChart/GaugeChart";
+import { GaugeMulti } from "../GaugeMulti/GaugeMulti";
+import { GaugeRings } from "../GaugeRings/GaugeRings";
+import { GaugeLinear } from "../GaugeLinear/GaugeLinear";
+import { GaugeLegend } from "../GaugeLegend/GaugeLegend";
+import { useGauge } from "../../hooks/useGauge";
+
+const percent = (v: number) => `${v}%`;
+
+describe("GaugeThemeProvider", () => {
+  it("is empty without a provider", () => {
+    const { result } = renderHook(() => useGaugeTheme());
+    expect(result.current).toEqual({});
+  });
+
+  it("merges nested themes key by key", () => {
+    const { result } = renderHook(() => useGaugeTheme(), {
+      wrapper: ({ children }) => (
+        <GaugeThemeProvider theme={{ color: "rose", strokeWidth: 14 }}>
+          <GaugeThemeProvider theme={{ strokeWidth: 6 }}>
+            {children}
+          </GaugeThemeProvider>
+        </GaugeThemeProvider>
+      ),
+    });
+    expect(result.current).toEqual({ color: "rose", strokeWidth: 6 });
+  });
+
+  it("supplies defaults to useGauge", () => {
+    const { result } = renderHook(
+      () => useGauge({ value: 40, showAnimation: false }),
+      {
+        wrapper: ({ children }) => (
+          <GaugeThemeProvider
+            theme={{
+              color: "violet",
+              valueFormatter: percent,
+              animationDuration: 300,
+            }}
+          >
+            {children}
+          </GaugeThemeProvider>
+        ),
+      },
+    );
+    expect(result.current.fillColor).toBe("#8b5cf6");
+    expect(result.current.valueLabel?.text).toBe("40%");
+    expect(result.current.animationDuration).toBe(300);
+  });
+
+  it("lets props override the theme", () => {
+    render(
+      <GaugeThemeProvider theme={{ color: "violet", valueFormatter: percent }}>
+        <GaugeChart
+          value={40}
+          color="amber"
+          valueFormatter={(v) => `${v} pts`}
+          showAnimation={false}
+        />
+      </GaugeThemeProvider>,
+    );
+    expect(screen.getByText("40 pts")).toBeInTheDocument();
+    expect(screen.getByTestId("fill")).toHaveAttribute("stroke", "#f59e0b");
+  });
+
+  it("applies strokeWidth and arcSpan to GaugeChart", () => {
+    render(
+      <GaugeThemeProvider theme={{ strokeWidth: 16, arcSpan: 240 }}>
+        <GaugeChart value={40} showAnimation={false} />
+      </GaugeThemeProvider>,
+    );
+    expect(screen.getByTestId("fill")).toHaveAttribute("stroke-width", "16");
+  });
+
+  it("paints track, text and needle in theme colors", () => {
+    const { container } = render(
+      <GaugeThemeProvider
+        theme={{
+          trackColor: "#e5e5e5",
+          valueColor: "--gauge-value",
+          labelColor: "slate",
+          needleColor: "red",
+          fontFamily: "Inter, sans-serif",
+        }}
+      >
+        <GaugeChart
+          value={40}
+          label="CPU"
+          showNeedle
+          showAnimation={false}
+        />
+      </GaugeThemeProvider>,
+    );
+    const svg = container.querySelector("svg")!;
+    expect(svg.style.fontFamily).toBe("Inter, sans-serif");
+    const track = container.querySelector("path[stroke='#e5e5e5']");
+    expect(track).not.toBeNull();
+    expect(track).not.toHaveAttribute("class");
+    expect(screen.getByText("40")).toHaveAttribute(
+      "fill",
+      "var(--gauge-value)",
+    );
+    expect(screen.getByText("CPU")).toHaveAttribute("fill", "#64748b");
+    expect(container.querySelectorAll("[fill='#ef4444']").length).toBe(2);
+  });
+
+  it("keeps the default classes when theme colors are unset", () => {
+    render(<GaugeChart value={40} showAnimation={false} />);
+    expect(screen.getByText("40")).toHaveClass("fill-gray-900");
+  });
+
+  it("swaps Tailwind classes for tremor-gauge classes in css mode", () => {
+    const { container } = render(
+      <GaugeThemeProvider theme={{ styling: "css" }}>
+        <GaugeChart value={40} label="CPU" showNeedle showAnimation={false} />
+      </GaugeThemeProvider>,
+    );
+    expect(container.querySelector("svg")).toHaveClass("tremor-gauge-root");
+    expect(screen.getByText("40")).toHaveClass("tremor-gauge-value");
+    expect(screen.getByText("CPU")).toHaveClass("tremor-gauge-label");
+    expect(container.querySelector(".tremor-gauge-track")).not.toBeNull();
+    expect(container.querySelector(".tremor-gauge-needle")).not.toBeNull();
+    expect(container.innerHTML).not.toMatch(/gray-\d/);
+    // The default fill reads the first palette variable
+    expect(screen.getByTestId("fill")).toHaveAttribute(
+      "stroke",
+      "var(--tremor-gauge-color-1)",
+    );
+  });
+
+  it("keeps theme colors over css mode classes", () => {
+    const { container } = render(
+      <GaugeThemeProvider theme={{ styling: "css", trackColor: "#eeeeee" }}>
+        <GaugeChart value={40} showAnimation={false} />
+      </GaugeThemeProvider>,
+    );
+    expect(container.querySelector("path[stroke='#eeeeee']")).not.toBeNull();
+    expect(container.querySelector(".tremor-gauge-track")).toBeNull();
+  });
+
+  it("uses css mode classes in multi-series gauges and the legend", () => {
+    const { container } = render(
+      <GaugeThemeProvider theme={{ styling: "css" }}>
+        <GaugeRings data={[{ name: "Move", value: 50 }]} />
+        <GaugeLegend
+          items={[{ name: "Sales", value: 45, color: "blue" }]}
+          showShare
+        />
+      </GaugeThemeProvider>,
+    );
+    expect(container.firstChild).toHaveClass("tremor-gauge-container");
+    expect(screen.getByTestId("ring-0")).toHaveClass("tremor-gauge-segment");
+    expect(screen.getByTestId("ring-fill-0")).toHaveAttribute(
+      "stroke",
+      "var(--tremor-gauge-color-1)",
+    );
+    expect(screen.getByText("Sales")).toHaveClass(
+      "tremor-gauge-legend-name-text",
+    );
+    expect(container.innerHTML).not.toMatch(/gray-\d/);
+  });
+
+  it("supplies colors and formatter to GaugeMulti", () => {
+    render(
+      <GaugeThemeProvider
+        theme={{ colors: ["#111111", "#222222"], valueFormatter: percent }}
+      >
+        <GaugeMulti
+          data={[
+            { name: "A", amount: 30 },
+            { name: "B", amount: 70 },
+          ]}
+          category="name"
+          value="amount"
+          label="Total"
+          showAnimation={false}
+        />
+      </GaugeThemeProvider>,
+    );
+    expect(screen.getByTestId("segment-0")).toHaveAttribute(
+      "stroke",
+      "#111111",
+    );
+    expect(screen.getByTestId("segment-1")).toHaveAttribute(
+      "stroke",
+      "#222222",
+    );
+    expect(screen.getByText("100%")).toBeInTheDocument();
+  });
+
+  it("supplies colors and strokeWidth to GaugeRings", () => {
+    render(
+      <GaugeThemeProvider theme={{ colors: ["#333333"], strokeWidth: 6 }}>
+        <GaugeRings
+          data={[{ name: "Move", value: 50 }]}
+          showAnimation={false}
+        />
+      </GaugeThemeProvider>,
+    );
+    const fill = screen.getByTestId("ring-fill-0");
+    expect(fill).toHaveAttribute("stroke", "#333333");
+    expect(fill).toHaveAttribute("stroke-width", "6");
+  });
+
+  it("supplies color and formatter to GaugeLinear", () => {
+    render(
+      <GaugeThemeProvider theme={{ color: "emerald", valueFormatter: percent }}>
+        <GaugeLinear value={25} showAnimation={false} />
+      </GaugeThemeProvider>,
+    );
+    expect(screen.getByText("25%")).toBeInTheDocument();
+    expect(screen.getByTestId("fill")).toHaveAttribute("stroke", "#10b981");
+  });
+
+  it("supplies formatter and text colors to GaugeLegend", () => {
+    render(
+      <GaugeThemeProvider
+        theme={{ valueFormatter: percent, labelColor: "#444444" }}
+      >
+        <GaugeLegend items={[{ name: "Sales", value: 45, color: "blue" }]} />
+      </GaugeThemeProvider>,
+    );
+    expect(screen.getByText("45%")).toBeInTheDocument();
+    expect(screen.getByText("Sales")).toHaveStyle({ color: "#444444" });
+  });
+});
@@ -0,0 +1,96 @@
+"use client";
+
+import React, { createContext, useContext } from "react";
+import { type Color, getColorValue } from "../../utils/chartColors";
+import type { GaugeStyling } from "../../utils/styling";
+import type { GaugeEasing, GaugeNeedleMotion } from "../../utils/animation";
+
+/**
+ * Defaults shared by every gauge under a `GaugeThemeProvider`. Each key is
+ * optional; props on a gauge always win over the theme, and the theme
+ * wins over the built-in defaults.
+ */
+export interface GaugeTheme {
+  /**
+   * Paint the neutral chrome with Tailwind classes (`"tailwind"`, default)
+   * or with `tremor-gauge-*` classes from `tremor-gauge/styles.css`, which
+   * read every color from CSS custom properties (`"css"`)
+   */
+  styling?: GaugeStyling;
+  /** Fill color of single-value gauges (`color` prop) */
+  color?: Color;
+  /** Color cycle of multi-series gauges (`colors` prop) */
+  colors?: Color[];
+  /** Background track color (default: gray-200, gray-800 in dark mode) */
+  trackColor?: Color;
+  /** Color of the main value text */
+  valueColor?: Color;
+  /** Color of secondary text: labels, tick labels, min/max, legend names */
+  labelColor?: Color;
+  /** Font family for all gauge text */
+  fontFamily?: string;
+  /** Stroke width of arcs and bars (`strokeWidth` prop) */
+  strokeWidth?: number;
+  /** Arc span in degrees (`arcSpan` prop) */
+  arcSpan?: number;
+  /** Animate fills and needles (`showAnimation` prop) */
+  showAnimation?: boolean;
+  /** Length of fill and needle animations in ms (default: 1000) */
+  animationDuration?: number;
+  /** Timing curve of fill and needle animations (default: `"ease-out"`) */
+  animationEasing?: GaugeEasing;
+  /** Wait before fill and needle animations start, in ms (default: 0) */
+  animationDelay?: number;
+  /** Format displayed values (`valueFormatter` prop) */
+  valueFormatter?: (value: number) => string;
+  /** Color of the needle and its hub (default: gray-700, gray-300 in dark mode) */
+  needleColor?: Color;
+  /** How needles move to new values (`needleMotion` prop) */
+  needleMotion?: GaugeNeedleMotion;
+}
+
+const GaugeThemeContext = createContext<GaugeTheme>({});
+
+export interface GaugeThemeProviderProps {
+  /** Defaults for the gauges beneath this provider */
+  theme: GaugeTheme;
+  children?: React.ReactNode;
+}
+
+/**
+ * Set defaults for all gauges beneath it. Providers nest: an inner theme
+ * is merged over the outer one, key by key.
+ *
+ * @example
+ * <GaugeThemeProvider theme={{ strokeWidth: 14, arcSpan: 240 }}>
+ *   <GaugeChart value={72} />
+ * </GaugeThemeProvider>
+ */
+export function GaugeThemeProvider({
+  theme,
+  children,
+}: GaugeThemeProviderProps) {
+  const parent = useContext(GaugeThemeContext);
+  return (
+    <GaugeThemeContext.Provider value={{ ...parent, ...theme }}>
+      {children}
+    </GaugeThemeContext.Provider>
+  );
+}
+
+/** The theme from the nearest `GaugeThemeProvider` (empty without one) */
+export function useGaugeTheme(): GaugeTheme {
+  return useContext(GaugeThemeContext);
+}
+
+/**
+ * Props that paint an SVG element in a theme color, or with the default
+ * Tailwind classes when the theme leaves that color unset.
+ */
+export function themeColorProps(
+  color: Color | undefined,
+  attr: "fill" | "stroke",
+  className: string,
+): { fill?: string; stroke?: string; className?: string } {
+  return color ? { [attr]: getColorValue(color) } : { className };
+}
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { useAnimatedValue, useAnimatedValues } from "./useAnimatedValue";
+
+describe("useAnimatedValue", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({
+      toFake: ["requestAnimationFrame", "cancelAnimationFrame"],
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("tweens from the start value to the target", () => {
+    const { result } = renderHook(() =>
+      useAnimatedValue(100, { from: 0, duration: 400 }),
+    );
+    expect(result.current).toBe(0);
+    act(() => {
+      vi.advanceTimersByTime(200);
+    });
+    expect(result.current).toBeGreaterThan(50); // eased out
+    expect(result.current).toBeLessThan(100);
+    act(() => {
+      vi.advanceTimersByTime(400);
+    });
+    expect(result.current).toBe(100);
+  });
+
+  it("continues from the current value when the target changes", () => {
+    const { result, rerender } = renderHook(
+      ({ target }) => useAnimatedValue(target, { from: 0, duration: 400 }),
+      { initialProps: { target: 100 } },
+    );
+    act(() => {
+      vi.advanceTimersByTime(200);
+    });
+    const midway = result.current;
+    rerender({ target: 0 });
+    act(() => {
+      vi.advanceTimersByTime(50);
+    });
+    // No jump back to 100 or down to 0
+    expect(result.current).toBeLessThan(midway);
+    expect(result.current).toBeGreaterThan(midway / 2);
+  });
+
+  it("returns the target immediately when not animating", () => {
+    const { result, rerender } = renderHook(
+      ({ target }) => useAnimatedValue(target, { animate: false, from: 0 }),
+      { initialProps: { target: 40 } },
+    );
+    expect(result.current).toBe(40);
+    rerender({ target: 70 });
+    expect(result.current).toBe(70);
+  });
+
+  it("eases with the chosen curve", () => {
+    const { result } = renderHook(() =>
+      useAnimatedValue(100, { from: 0, duration: 400, easing: "linear" }),
+    );
+    act(() => {
+      vi.advanceTimersByTime(16);
+    });
+    act(() => {
+      vi.advanceTimersByTime(200);
+    });
+    // Linear progress lags the default ease-out, which is past 80 by now
+    expect(result.current).toBeGreaterThan(40);
+    expect(result.current).toBeLessThan(60);
+  });
+
+  it("holds the start value for the delay", () => {
+    const onStart = vi.fn();
+    const { result } = renderHook(() =>
+      useAnimatedValue(100, { from: 0, duration: 400, delay: 300, onStart }),
+    );
+    act(() => {
+      vi.advanceTimersByTime(250);
+    });
+    expect(result.current).toBe(0);
+    expect(onStart).not.toHaveBeenCalled();
+    act(() => {
+      vi.advanceTimersByTime(200);
+    });
+    expect(onStart).toHaveBeenCalledTimes(1);
+    expect(result.current).toBeGreaterThan(0);
+  });
+
+  it("calls onStart and onEnd once per completed tween", () => {
+    const onStart = vi.fn();
+    const onEnd = vi.fn();
+    const { result } = renderHook(() =>
+      useAnimatedValue(100, { from: 0, duration: 200, onStart, onEnd }),
+    );
+    act(() => {
+      vi.advanceTimersByTime(100);
+    });
+    expect(onStart).toHaveBeenCalledTimes(1);
+    expect(onEnd).not.toHaveBeenCalled();
+    act(() => {
+      vi.advanceTimersByTime(300);
+    });
+    expect(result.current).toBe(100);
+    expect(onStart).toHaveBeenCalledTimes(1);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not end an interrupted tween", () => {
+    const onStart = vi.fn();
+    const onEnd = vi.fn();
+    const { rerender } = renderHook(
+      ({ target }) =>
+        useAnimatedValue(target, { from: 0, duration: 400, onStart, onEnd }),
+      { initialProps: { target: 100 } },
+    );
+    act(() => {
+      vi.advanceTimersByTime(200);
+    });
+    rerender({ target: 50 });
+    act(() => {
+      vi.advanceTimersByTime(600);
+    });
+    expect(onStart).toHaveBeenCalledTimes(2);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips callbacks when values jump", () => {
+    const onStart = vi.fn();
+    const onEnd = vi.fn();
+    const { rerender } = renderHook(
+      ({ target }) =>
+        useAnimatedValue(target, { animate: false, onStart, onEnd }),
+      { initialProps: { target: 10 } },
+    );
+    rerender({ target: 20 });
+    act(() => {
+      vi.advanceTimersByTime(2000);
+    });
+    expect(onStart).not.toHaveBeenCalled();
+    expect(onEnd).not.toHaveBeenCalled();
+  });
+
+  it("tweens each value of a list", () => {
+    const { result } = renderHook(() =>
+      useAnimatedValues([1, 2], { from: [0, 0], duration: 100 }),
+    );
+    expect(result.current).toEqual([0, 0]);
+    act(() => {
+      vi.advanceTimersByTime(200);
+    });
+    expect(result.current).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,112 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import {
+  type GaugeEasing,
+  getEasing,
+  prefersReducedMotion,
+} from "../utils/animation";
+
+export interface AnimatedValuesOptions {
+  /** Tween toward new targets; when false, values jump (default: true) */
+  animate?: boolean;
+  /** Values to start from on mount (default: the first targets) */
+  from?: number[];
+  /** Tween duration in ms (default: 1000) */
+  duration?: number;
+  /** Timing curve (default: `"ease-out"`) */
+  easing?: GaugeEasing;
+  /** Wait before each tween starts, in ms (default: 0) */
+  delay?: number;
+  /** Called when a tween starts moving, after any delay */
+  onStart?: () => void;
+  /** Called when a tween reaches its targets (not when interrupted) */
+  onEnd?: () => void;
+}
+
+/**
+ * Tween a list of numbers toward `targets` with requestAnimationFrame.
+ *
+ * Path geometry (`d`) can't be interpolated by CSS transitions, so arcs
+ * animate by re-rendering from these values instead. A new target starts
+ * from wherever the previous tween had reached, so interrupted animations
+ * never jump. Honors `prefers-reduced-motion`; values that jump without
+ * tweening don't fire `onStart` or `onEnd`.
+ */
+export function useAnimatedValues(
+  targets: number[],
+  {
+    animate = true,
+    from,
+    duration = 1000,
+    easing,
+    delay = 0,
+    onStart,
+    onEnd,
+  }: AnimatedValuesOptions = {},
+): number[] {
+  const [values, setValues] = useState(() =>
+    animate && from && from.length === targets.length ? from : targets,
+  );
+  const valuesRef = useRef(values);
+  valuesRef.current = values;
+  // Latest easing and callbacks, read by the running tween
+  const latest = useRef({ easing, onStart, onEnd });
+  latest.current = { easing, onStart, onEnd };
+  const key = targets.join(",");
+
+  useEffect(() => {
+    const start = valuesRef.current;
+    if (
+      !animate ||
+      duration <= 0 ||
+      start.length !== targets.length ||
+      prefersReducedMotion()
+    ) {
+      setValues(targets);
+      return;
+    }
+    if (start.every((v, i) => v === targets[i])) return;
+    let frame = 0;
+    let startTime: number | null = null;
+    let started = false;
+    const tick = (now: number) => {
+      startTime ??= now;
+      const elapsed = now - startTime - delay;
+      if (elapsed < 0) {
+        frame = requestAnimationFrame(tick);
+        return;
+      }
+      if (!started) {
+        started = true;
+        latest.current.onStart?.();
+      }
+      const t = Math.min(1, elapsed / duration);
+      const eased = getEasing(latest.current.easing)(t);
+      setValues(
+        t < 1
+          ? targets.map((v, i) => start[i] + (v - start[i]) * eased)
+          : targets,
+      );
+      if (t < 1) frame = requestAnimationFrame(tick);
+      else latest.current.onEnd?.();
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [key, animate, duration, delay]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Without animation (or mid-way through a data change) show the targets
+  return animate && values.length === targets.length ? values : targets;
+}
+
+/** Single-number form of `useAnimatedValues` */
+export function useAnimatedValue(
+  target: number,
+  options: Omit<AnimatedValuesOptions, "from"> & { from?: number } = {},
+): number {
+  const { from, ...rest } = options;
+  return useAnimatedValues([target], {
+    ...rest,
+    from: from === undefined ? undefined : [from],
+  })[0];
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  act,
+  renderHook,
+  render,
+  fireEvent,
+  screen,
+} from "@testing-library/react";
+import { useGauge, type UseGaugeOptions } from "./useGauge";
+import { GaugeChart } from "../components/GaugeChart/GaugeChart";
+
+describe("useGauge", () => {
+  it("returns the same geometry GaugeChart draws", () => {
+    const options: UseGaugeOptions = {
+      value: 64,
+      arcSpan: 240,
+      showAnimation: false,
+    };
+    const { result } = renderHook(() => useGauge(options));
+    const { container } = render(<GaugeChart {...options} />);
+    const [track, fill] = container.querySelectorAll("path");
+    expect(container.querySelector("svg")).toHaveAttribute(
+      "viewBox",
+      result.current.svgProps.viewBox,
+    );
+    expect(track).toHaveAttribute("d", result.current.trackPath);
+    expect(fill).toHaveAttribute("d", result.current.fillPath);
+  });
+
+  it("resolves the fill color and needle angle", () => {
+    const { result } = renderHook(() =>
+      useGauge({
+        value: 90,
+        showNeedle: true,
+        showAnimation: false,
+        thresholds: [
+          { value: 0, color: "emerald" },
+          { value: 80, color: "pink" },
+        ],
+      }),
+    );
+    expect(result.current.activeColor).toBe("pink");
+    expect(result.current.fillColor).toBe("#ec4899");
+    // 180° arc from 9 o'clock: 90% of the way is 72° past 12 o'clock
+    expect(result.current.needle?.angle).toBeCloseTo(432);
+  });
+
+  it("tweens the fill from the origin to the value", () => {
+    vi.useFakeTimers({
+      toFake: ["requestAnimationFrame", "cancelAnimationFrame"],
+    });
+    const { result } = renderHook(() => useGauge({ value: 50 }));
+    expect(result.current.fraction).toBe(0);
+    expect(result.current.fillPath).toBe("");
+    act(() => {
+      vi.advanceTimersByTime(500);
+    });
+    expect(result.current.mounted).toBe(true);
+    expect(result.current.fraction).toBeGreaterThan(0);
+    expect(result.current.fraction).toBeLessThan(0.5);
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    expect(result.current.fraction).toBe(0.5);
+    vi.useRealTimers();
+  });
+
+  it("exposes labels, bands and ticks", () => {
+    const { result } = renderHook(() =>
+      useGauge({
+        value: 40,
+        label: "Load",
+        showMinMax: true,
+        tickCount: 5,
+        thresholds: [
+          { value: 0, color: "emerald" },
+          { value: 50, color: "amber" },
+        ],
+        showThresholdArc: "bands",
+        showAnimation: false,
+      }),
+    );
+    expect(result.current.valueLabel?.text).toBe("40");
+    expect(result.current.secondaryLabel?.text).toBe("Load");
+    expect(result.current.minMaxLabels.map((l) => l.text)).toEqual([
+      "0",
+      "100",
+    ]);
+    expect(result.current.thresholdBands).toHaveLength(2);
+    expect(result.current.tickLabels.map((t) => t.text)).toEqual([
+      "0",
+      "20",
+      "40",
+      "60",
+      "80",
+      "100",
+    ]);
+  });
+
+  it("wires interaction handlers into svgProps", () => {
+    const onValueChange = vi.fn();
+    function CustomGauge() {
+      const gauge = useGauge({ value: 10, onValueChange });
+      return <svg {...gauge.svgProps} />;
+    }
+    render(<CustomGauge />);
+    const slider = screen.getByRole("slider");
+    expect(slider).toHaveAttribute("tabindex", "0");
+    fireEvent.keyDown(slider, { key: "ArrowUp" });
+    expect(onValueChange).toHaveBeenCalledWith(11);
+  });
+});
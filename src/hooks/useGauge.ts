@@ -0,0 +1,1121 @@
+"use client";
+
+/**
+ * Headless gauge: all of `GaugeChart`'s geometry, state and interaction
+ * without the markup. Use it to render a gauge your own way (custom SVG,
+ * canvas) with exactly the same math and behavior.
+ */
+
+import React, {
+  useEffect,
+  useId,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from "react";
+import { type Color, getColorValue } from "../utils/chartColors";
+import {
+  getArcPath,
+  describeArcBand,
+  getSegmentPaths,
+  splitArc,
+  getStartAngle,
+  getArcStart,
+  getArcBounds,
+  clampArcSpan,
+  isBottomOpening,
+  degToRad,
+  polarToCartesian,
+  type GaugeDirection,
+  type GaugeOrientation,
+} from "../utils/arc";
+import {
+  type GaugeMarker,
+  getMarkerBounds,
+  layoutMarkers,
+} from "../utils/markers";
+import {
+  type LabelBox,
+  getTextBox,
+  padBox,
+  placeRadialLabel,
+  unionBoxes,
+} from "../utils/labels";
+import { getMinorTicks } from "../utils/ticks";
+import { type GaugeScaleType, isLinearScale } from "../utils/scale";
+import { createGaugeScale } from "../utils/gaugeScale";
+import {
+  type GaugeGradient,
+  getGradientColorAt,
+  getGradientStops,
+} from "../utils/gradient";
+import {
+  type GaugeEasing,
+  type GaugeNeedleMotion,
+  getSpringConfig,
+  roundToPrecisionOf,
+} from "../utils/animation";
+import { useAnimatedValue } from "./useAnimatedValue";
+import { useSpring } from "./useSpring";
+import { useValueHold } from "./useValueHold";
+import type { GaugeHold, GaugeHoldHandle } from "../utils/hold";
+import { useGaugeTheme } from "../components/GaugeThemeProvider/GaugeThemeProvider";
+import { getDefaultColors } from "../utils/styling";
+import {
+  type GaugeThreshold,
+  getThresholdZones,
+  resolveColor,
+  interpolateThresholdColor,
+} from "../utils/thresholds";
+
+export interface UseGaugeOptions {
+  /** Current value */
+  value: number;
+  /** Minimum value (default: 0) */
+  min?: number;
+  /** Maximum value (default: 100) */
+  max?: number;
+  /** Tremor color token or any CSS color (used when thresholds are not set) */
+  color?: Color;
+  /**
+   * How values map onto the arc (default: "linear"). Use `"log"` for ranges
+   * spanning orders of magnitude (requires `min > 0`), or a piecewise-linear
+   * `{ domain, range }` to give part of the range more room. Fill, needle,
+   * threshold bands, ticks and markers all follow the scale.
+   *
+   * @example
+   * scale={{ domain: [0, 100, 1000], range: [0, 0.75, 1] }}
+   */
+  scale?: GaugeScaleType;
+  /**
+   * Value the fill grows from (default: `min`). Set it to `0` on a range like
+   * -50..50 for a bipolar gauge: the fill runs from the origin toward the
+   * value in either direction, the needle starts there, and thresholds
+   * below the origin apply as the value falls past them.
+   */
+  origin?: number;
+  /**
+   * Value-based color thresholds. Each entry defines a zone starting at
+   * `value`. The fill arc color changes based on the highest threshold
+   * the current value has reached.
+   *
+   * @example
+   * thresholds={[
+   *   { value: 0,  color: "emerald" },
+   *   { value: 60, color: "amber" },
+   *   { value: 80, color: "pink" },
+   * ]}
+   */
+  thresholds?: GaugeThreshold[];
+  /**
+   * How thresholds color the fill:
+   * - `"step"` — the color of the zone the value is in (default)
+   * - `"interpolate"` — blended between neighboring threshold colors, so the
+   *   fill shifts gradually (emerald → amber) instead of snapping at 60.
+   *   Each color sits at its own threshold value, which is where inverted
+   *   and origin zones meet too, so `invert` and `origin` don't change it.
+   */
+  colorMode?: "step" | "interpolate";
+  /**
+   * Read thresholds as "lower is better" (error rates, latency): each zone
+   * ends at its threshold instead of starting there, so a value takes the
+   * color of the lowest threshold at or above it. Around an `origin`,
+   * zones grow toward it instead of away from it.
+   *
+   * @example
+   * // Up to 200 ms emerald, up to 500 ms amber, beyond that pink
+   * thresholds={[
+   *   { value: 200, color: "emerald" },
+   *   { value: 500, color: "amber" },
+   *   { value: 2000, color: "pink" },
+   * ]}
+   * invert
+   */
+  invert?: boolean;
+  /**
+   * Custom fill color for a value: a color token or any CSS color.
+   * Overrides `color`, `thresholds` and `colorMode` (but not `gradient`).
+   *
+   * @example
+   * getColor={(v) => (v > 90 ? "pink" : "#0ea5e9")}
+   */
+  getColor?: (value: number) => Color;
+  /**
+   * How to visualize threshold zones on the background track.
+   * - `"bands"` — colored arc segments behind the fill (default when showThresholdArc is true)
+   * - `"ticks"` — thin tick marks at each threshold boundary
+   * - `false` / not set — plain gray track
+   */
+  showThresholdArc?: boolean | "bands" | "ticks";
+  /**
+   * Color the fill with a gradient that follows the arc: `{ from, to }`,
+   * `{ stops: [{ offset, color }] }` with offsets from 0 (arc start) to 1
+   * (arc end), or `"thresholds"` for a stop at each threshold. Around an
+   * `origin`, `{ from, to }` runs outward from it toward both ends.
+   */
+  gradient?: GaugeGradient;
+  /**
+   * How a value outside `[min, max]` shows (the label always shows it as is):
+   * - `"clamp"` — the fill and needle stop at the arc end (default)
+   * - `"cap"` — a band in `overflowColor` marks the end the value passed
+   * - `"lap"` — the excess over `max` runs a second lap over the fill, so
+   *   135% of quota shows a full arc plus 35%; under `min` shows a cap
+   * - `"peg"` — the needle presses past the end against a stop pin, both
+   *   in `overflowColor` (the fill, without a needle)
+   */
+  overflow?: "clamp" | "cap" | "lap" | "peg";
+  /** Warning color of the overflow cap, lap or pegged needle (default: "red") */
+  overflowColor?: Color;
+  /**
+   * Called with the value and its side of the range when the value moves
+   * outside `[min, max]` (not on every update while it stays there)
+   */
+  onOutOfRange?: (value: number, side: "over" | "under") => void;
+  /** Format the displayed center value */
+  valueFormatter?: (value: number) => string;
+  /** Show the center value label (default: true) */
+  showLabel?: boolean;
+  /** Secondary label text below the value (e.g. "Completion Rate") */
+  label?: string;
+  /** Show min/max labels at the arc ends (default: false) */
+  showMinMax?: boolean;
+  /**
+   * Approximate number of intervals for an automatic scale. Tick values
+   * are rounded to nice steps (1, 2 or 5 × 10ⁿ). Setting this (or `ticks`)
+   * draws a labeled scale along the arc.
+   */
+  tickCount?: number;
+  /** Explicit major tick values; overrides `tickCount` */
+  ticks?: number[];
+  /** Number of unlabeled minor ticks between each pair of major ticks (default: 0) */
+  minorTicks?: number;
+  /** Format tick labels (default: `valueFormatter`) */
+  tickFormatter?: (value: number) => string;
+  /** Draw the scale inside or outside the arc (default: "inside") */
+  tickPlacement?: "inside" | "outside";
+  /**
+   * Animate the arc, needle and value label on mount and whenever the
+   * value changes (default: true)
+   */
+  showAnimation?: boolean;
+  /** Length of each value animation in ms (default: 1000) */
+  animationDuration?: number;
+  /**
+   * Timing curve: `"linear"`, `"ease-in"`, `"ease-out"`, `"ease-in-out"`,
+   * or a function of progress 0..1 (default: `"ease-out"`)
+   */
+  animationEasing?: GaugeEasing;
+  /** Wait before each value animation starts, in ms (default: 0) */
+  animationDelay?: number;
+  /** Called when a value animation starts moving */
+  onAnimationStart?: () => void;
+  /** Called when a value animation settles on the new value */
+  onAnimationEnd?: () => void;
+  /**
+   * Arc span in degrees, anywhere from 1 to 360 (default: 180). `360` draws
+   * a closed progress ring with the label in the true center; the fill
+   * starts at 12 o'clock unless `startAngle` is set.
+   */
+  arcSpan?: number;
+  /**
+   * Side of the gauge the arc's opening faces (default: "bottom"). Use
+   * `"top"` for a top-opening arc or `"left"`/`"right"` for side dials.
+   */
+  orientation?: GaugeOrientation;
+  /**
+   * Angle where the arc (and the fill) starts, in degrees clockwise from
+   * 12 o'clock. Overrides `orientation`; e.g. `arcSpan={90} startAngle={270}`
+   * draws a quarter circle from 9 to 12 o'clock.
+   */
+  startAngle?: number;
+  /**
+   * Which way values run around the arc (default: "clockwise").
+   * Counterclockwise fills the same arc from its other end, for mirrored
+   * side-by-side gauges and right-to-left layouts; with `startAngle` set,
+   * values run counterclockwise from it.
+   */
+  direction?: GaugeDirection;
+  /**
+   * Reference values (targets, SLAs, quotas) drawn as ticks or triangles on
+   * the arc, with their labels placed outside the track.
+   *
+   * @example
+   * markers={[{ value: 90, label: "Target", style: "triangle" }]}
+   */
+  markers?: GaugeMarker[];
+  /**
+   * Hold the highest and lowest values seen as marks on the arc, so short
+   * spikes stay visible between glances. `true` holds both since mount;
+   * pass options to hold over a rolling `window`, let held values `decay`
+   * back to the live one, or leave a fading `trail` of ghost needles.
+   *
+   * @example
+   * hold={{ max: true, min: false, decay: 3000, trail: true }}
+   */
+  hold?: boolean | GaugeHold;
+  /** Handle whose `reset()` clears the held values (see `hold`) */
+  holdRef?: React.Ref<GaugeHoldHandle>;
+  /**
+   * Arc rendering style:
+   * - `"default"` — a continuous fill arc
+   * - `"segmented"` — discrete LED-style blocks that light up as the value
+   *   rises, each in the threshold color for its position (VU meter look).
+   *   Threshold bands are not drawn in this mode.
+   */
+  variant?: "default" | "segmented";
+  /** Number of blocks in the segmented variant (default: 10) */
+  segmentCount?: number;
+  /** Gap between blocks in degrees, in the segmented variant (default: 2) */
+  segmentGap?: number;
+  /** Block end shape in the segmented variant (default: "square") */
+  segmentCap?: "round" | "square";
+  /** Show a needle indicator (default: false) */
+  showNeedle?: boolean;
+  /**
+   * How the needle moves: `"tween"` follows the fill in step with the label;
+   * `"damped"`, `"overshoot"` and `"snappy"` are spring presets, and
+   * `{ stiffness, damping, mass }` sets a custom spring. Springs keep their
+   * momentum through rapid updates (default: `"tween"`).
+   */
+  needleMotion?: GaugeNeedleMotion;
+  /** Stroke width of the arc track and fill (default: 10) */
+  strokeWidth?: number;
+  /**
+   * Called with the new value when the user drags along the arc, clicks the
+   * track, or uses the keyboard. Setting this makes the gauge an interactive
+   * `role="slider"` control; keep `value` in state and update it here.
+   */
+  onValueChange?: (value: number) => void;
+  /** Granularity of interactive value changes (default: 1) */
+  step?: number;
+  /** Disable interaction while keeping the gauge visible (default: false) */
+  disabled?: boolean;
+}
+
+const SIZE = 200;
+const CX = SIZE / 2;
+const CY = SIZE / 2;
+/** How far a pegged needle presses past the arc end, in degrees */
+const PEG_ANGLE = 4;
+
+/** Round a value to the nearest `step` from `min` and clamp to [min, max] */
+function snapToStep(
+  value: number,
+  min: number,
+  max: number,
+  step: number,
+): number {
+  const clamped = Math.max(min, Math.min(max, value));
+  if (step <= 0) return clamped;
+  const snapped = min + Math.round((clamped - min) / step) * step;
+  // Trim floating point noise (e.g. 0.1 + 0.2); counting the step's
+  // decimals would miss exponent notation like 1e-7
+  return Math.min(max, Number(snapped.toPrecision(12)));
+}
+
+/**
+ * Compute everything `GaugeChart` draws. Spread `svgProps` on the root
+ * `<svg>` to get the viewBox, ARIA attributes and (when `onValueChange` is
+ * set) pointer and keyboard handling. Options left unset fall back to the
+ * nearest `GaugeThemeProvider`.
+ *
+ * @example
+ * const gauge = useGauge({ value: 72, arcSpan: 240 });
+ * <svg {...gauge.svgProps}>
+ *   <path d={…} />
+ * </svg>
+ */
+export function useGauge(options: UseGaugeOptions) {
+  const theme = useGaugeTheme();
+  const {
+    value,
+    min = 0,
+    max = 100,
+    color = theme.color ?? getDefaultColors(theme.styling)[0],
+    scale = "linear",
+    origin,
+    thresholds,
+    colorMode = "step",
+    invert = false,
+    getColor,
+    showThresholdArc = false,
+    gradient,
+    overflow = "clamp",
+    overflowColor = "red",
+    onOutOfRange,
+    valueFormatter = theme.valueFormatter ?? ((v: number) => `${v}`),
+    showLabel = true,
+    label,
+    showMinMax = false,
+    tickCount,
+    ticks,
+    minorTicks = 0,
+    tickFormatter,
+    tickPlacement = "inside",
+    showAnimation = theme.showAnimation ?? true,
+    animationDuration = theme.animationDuration ?? 1000,
+    animationEasing = theme.animationEasing,
+    animationDelay = theme.animationDelay ?? 0,
+    onAnimationStart,
+    onAnimationEnd,
+    arcSpan: arcSpanProp = theme.arcSpan ?? 180,
+    orientation = "bottom",
+    startAngle,
+    direction = "clockwise",
+    showNeedle = false,
+    needleMotion = theme.needleMotion ?? "tween",
+    markers,
+    hold,
+    holdRef,
+    variant = "default",
+    segmentCount = 10,
+    segmentGap = 2,
+    segmentCap = "square",
+    strokeWidth = theme.strokeWidth ?? 10,
+    onValueChange,
+    step = 1,
+    disabled = false,
+  } = options;
+  // Prefix for ids of SVG defs (the needle's shadow filter)
+  const defsId = useId();
+  const [mounted, setMounted] = useState(!showAnimation);
+  useLayoutEffect(() => {
+    if (!showAnimation) return;
+    // Flip after first paint, for markup that transitions in with CSS
+    const id = requestAnimationFrame(() => setMounted(true));
+    return () => cancelAnimationFrame(id);
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const interactive = onValueChange !== undefined;
+  // Animation is suspended while dragging so the fill tracks the pointer
+  const [dragging, setDragging] = useState(false);
+
+  const arcSpan = clampArcSpan(arcSpanProp);
+  const start = startAngle ?? getStartAngle(arcSpan, orientation, direction);
+  // Values run away from `start` the other way when counterclockwise
+  const sweep = direction === "counterclockwise" ? -1 : 1;
+  /** Angle of a position along the arc, from 0 at `min` to 1 at `max` */
+  const angleAt = (f: number) => start + sweep * f * arcSpan;
+  // Clockwise-most end, for helpers that only care about the arc's shape
+  const arcStart = getArcStart(arcSpan, start, direction);
+  // Closed ring: no ends on the track, and a full fill closes seamlessly
+  const isRing = arcSpan >= 360;
+
+  const radius = (SIZE - strokeWidth * 2) / 2;
+  const range = max - min;
+  const gaugeScale = createGaugeScale({
+    min,
+    max,
+    arcSpan,
+    startAngle: start,
+    direction,
+    type: scale,
+    cx: CX,
+    cy: CY,
+    radius,
+  });
+  const toFraction = gaugeScale.valueToFraction;
+  const valueToAngle = gaugeScale.valueToAngle;
+  // Fills grow from the origin; undefined keeps min-based thresholds
+  const originValue =
+    origin !== undefined && range > 0
+      ? Math.max(min, Math.min(max, origin))
+      : undefined;
+  const originFraction = toFraction(originValue ?? min);
+  const targetFraction = toFraction(value);
+  // Tweened in JS: path geometry can't be interpolated by CSS transitions.
+  // The needle and value label follow the same tween.
+  const fraction = useAnimatedValue(targetFraction, {
+    animate: showAnimation && !dragging,
+    from: originFraction,
+    duration: animationDuration,
+    easing: animationEasing,
+    delay: animationDelay,
+    onStart: onAnimationStart,
+    onEnd: onAnimationEnd,
+  });
+
+  // Out-of-range values: which side, and how it shows
+  const outOfRange =
+    range > 0 && value > max
+      ? "over"
+      : range > 0 && value < min
+        ? "under"
+        : null;
+  const overflowHex = getColorValue(overflowColor);
+  const pegged = overflow === "peg" && outOfRange !== null;
+  const onOutOfRangeRef = useRef(onOutOfRange);
+  onOutOfRangeRef.current = onOutOfRange;
+  useEffect(() => {
+    if (outOfRange) onOutOfRangeRef.current?.(value, outOfRange);
+  }, [outOfRange]); // eslint-disable-line react-hooks/exhaustive-deps
+  // The excess over max, as a second lap from the origin
+  const lapTarget =
+    overflow === "lap" && outOfRange === "over"
+      ? toFraction((originValue ?? min) + (value - max))
+      : originFraction;
+  const lapFraction = useAnimatedValue(lapTarget, {
+    animate: showAnimation && !dragging,
+    from: originFraction,
+    duration: animationDuration,
+    easing: animationEasing,
+    delay: animationDelay,
+  });
+  // The value itself, unclamped, for the label to count past the range
+  const rawValue = useAnimatedValue(value, {
+    animate: showAnimation && !dragging,
+    from: originValue ?? min,
+    duration: animationDuration,
+    easing: animationEasing,
+    delay: animationDelay,
+  });
+
+  // Gradient stops along the arc (none: solid fill)
+  const gradientStops = gradient
+    ? getGradientStops(gradient, thresholds, toFraction)
+    : [];
+  const hasGradient = gradientStops.length > 0;
+  // Position on the gradient for a fraction of the arc. Around an origin a
+  // two-color gradient runs outward from it toward both ends.
+  const gradientOffset = (f: number) => {
+    if (originValue === undefined || typeof gradient !== "object") return f;
+    if (!("from" in gradient)) return f;
+    if (f >= originFraction) {
+      return originFraction >= 1
+        ? 0
+        : (f - originFraction) / (1 - originFraction);
+    }
+    return originFraction <= 0 ? 0 : (originFraction - f) / originFraction;
+  };
+  const gradientColorAt = (f: number) =>
+    getGradientColorAt(gradientStops, gradientOffset(f));
+
+  // Fill color for a value, from getColor, blended or stepped thresholds
+  const colorForValue = (v: number) => {
+    if (getColor) return getColorValue(getColor(v));
+    if (colorMode === "interpolate" && thresholds && thresholds.length > 0) {
+      return interpolateThresholdColor(v, thresholds);
+    }
+    return getColorValue(
+      resolveColor(v, color, thresholds, originValue, invert),
+    );
+  };
+
+  // Resolve fill color — with a gradient, the color at the fill's end.
+  // Continuous colors follow the tween so they shift as the fill sweeps.
+  const activeColor = resolveColor(
+    value,
+    color,
+    thresholds,
+    originValue,
+    invert,
+  );
+  // The fill stops at the range's end, so out of range the label follows
+  // its own tween to the real value (135 counts up past 100)
+  const tweenedValue =
+    outOfRange !== null
+      ? rawValue
+      : fraction === targetFraction
+        ? value
+        : gaugeScale.fractionToValue(fraction);
+  // The label counts along with the fill, at the value's own precision
+  const displayValue =
+    tweenedValue === value
+      ? value
+      : roundToPrecisionOf(tweenedValue, value, originValue ?? min);
+  const fillHex =
+    pegged && !showNeedle
+      ? overflowHex
+      : hasGradient
+        ? gradientColorAt(fraction)
+        : colorForValue(
+            getColor || colorMode === "interpolate" ? tweenedValue : value,
+          );
+
+  // Background track (full arc) and fill, from the origin to the value
+  const trackPath = getArcPath(CX, CY, radius, arcSpan, 0, 1, arcStart);
+  const fillPath = getArcPath(
+    CX,
+    CY,
+    radius,
+    arcSpan,
+    originFraction,
+    fraction,
+    start,
+    direction,
+  );
+  // A gradient fill is painted as thin slices, each in the color at its
+  // middle, with round caps on the outer ends only
+  const gradientSlices = (() => {
+    if (!hasGradient) return [];
+    const lo = Math.min(originFraction, fraction);
+    const hi = Math.max(originFraction, fraction);
+    const closed = isRing && hi - lo >= 1;
+    const [a, b] = [angleAt(lo), angleAt(hi)];
+    const slices = splitArc(Math.min(a, b), Math.max(a, b));
+    return slices.map(([from, to], i) => {
+      const last = i === slices.length - 1;
+      return {
+        // Overlap the next slice slightly so no seams show between them
+        d: describeArcBand(
+          CX,
+          CY,
+          radius,
+          strokeWidth,
+          from,
+          last ? to : to + 0.25,
+          {
+            start: i === 0 && !closed ? "round" : "butt",
+            end: last && !closed ? "round" : "butt",
+          },
+        ),
+        color: gradientColorAt((sweep * ((from + to) / 2 - start)) / arcSpan),
+      };
+    });
+  })();
+
+  // Segmented (LED) blocks — each lights once the fill reaches its middle
+  const segmented = variant === "segmented";
+  const blocks = (() => {
+    if (!segmented) return [];
+    const count = Math.max(1, Math.round(segmentCount));
+    // Round caps overhang each block end by half the stroke width
+    const gapLength =
+      degToRad(segmentGap) * radius +
+      (segmentCap === "round" ? strokeWidth : 0);
+    const arcs = getSegmentPaths(
+      CX,
+      CY,
+      radius,
+      arcSpan,
+      Array.from({ length: count }, () => 1 / count),
+      gapLength,
+      start,
+      direction,
+    );
+    return arcs.map((arc, i) => {
+      const center = (i + 0.5) / count;
+      const blockValue = gaugeScale.fractionToValue(center);
+      // Lit when the block's middle lies between the origin and the fill
+      const lit =
+        fraction >= originFraction
+          ? center >= originFraction && center <= fraction
+          : center <= originFraction && center >= fraction;
+      return {
+        ...arc,
+        lit: range > 0 && lit,
+        stroke: hasGradient
+          ? gradientColorAt(center)
+          : colorForValue(blockValue),
+      };
+    });
+  })();
+
+  // Threshold arc mode
+  const thresholdMode =
+    showThresholdArc === true
+      ? "ticks"
+      : showThresholdArc === "bands"
+        ? "bands"
+        : showThresholdArc === "ticks"
+          ? "ticks"
+          : false;
+
+  // Threshold zone bands
+  const thresholdBands = (() => {
+    if (
+      thresholdMode !== "bands" ||
+      !thresholds ||
+      thresholds.length === 0 ||
+      range <= 0
+    )
+      return null;
+    // Bands touching an arc end get that end's round cap
+    const cap = (atEnd: boolean): "round" | "butt" =>
+      atEnd && !isRing ? "round" : "butt";
+    const zones = getThresholdZones(thresholds, min, max, originValue, invert);
+    return zones.map((zone) => {
+      const from = toFraction(zone.from);
+      const to = toFraction(zone.to);
+      // Ends in clockwise order, which is reversed counterclockwise
+      const [lo, hi] = [
+        { angle: angleAt(from), cap: cap(from <= 0) },
+        { angle: angleAt(to), cap: cap(to >= 1) },
+      ].sort((a, b) => a.angle - b.angle);
+      return {
+        d: describeArcBand(CX, CY, radius, strokeWidth, lo.angle, hi.angle, {
+          start: lo.cap,
+          end: hi.cap,
+        }),
+        color: zone.color,
+      };
+    });
+  })();
+
+  // Threshold tick positions
+  const thresholdTicks = (() => {
+    if (
+      thresholdMode !== "ticks" ||
+      !thresholds ||
+      thresholds.length < 2 ||
+      range <= 0
+    )
+      return null;
+    const sorted = [...thresholds].sort((a, b) => a.value - b.value);
+    // Skip the first threshold (it's the arc start; the last one when
+    // inverted), draw ticks at boundaries. Around an origin every threshold
+    // inside the arc is one.
+    const boundaries =
+      originValue !== undefined
+        ? sorted.filter((t) => t.value > min && t.value < max)
+        : invert
+          ? sorted.slice(0, -1)
+          : sorted.slice(1);
+    // Ticks cross the track from just outside it inward
+    const outerR = radius + strokeWidth / 2 + 2;
+    const innerR = outerR - (strokeWidth + 6);
+    return boundaries.map((t) => {
+      const angle = valueToAngle(t.value);
+      return {
+        angle,
+        color: t.color,
+        from: polarToCartesian(CX, CY, innerR, angle),
+        to: polarToCartesian(CX, CY, outerR, angle),
+      };
+    });
+  })();
+
+  // Needle — rides the tweened fill position, or its own spring
+  const spring = getSpringConfig(needleMotion);
+  const springFraction = useSpring(targetFraction, {
+    animate: showAnimation && !dragging && showNeedle && spring !== null,
+    from: originFraction,
+    ...spring,
+  });
+  const needleFraction = spring ? springFraction : fraction;
+  // A pegged needle presses past the arc end, against the stop pin
+  const needleAngle =
+    pegged && outOfRange === "over" && needleFraction >= 1
+      ? angleAt(1) + sweep * PEG_ANGLE
+      : pegged && outOfRange === "under" && needleFraction <= 0
+        ? angleAt(0) - sweep * PEG_ANGLE
+        : angleAt(needleFraction);
+  const needleLength = radius - 4;
+
+  // Overflow indication: cap band, second lap, or stop pin
+  const overflowCap = (() => {
+    const side =
+      overflow === "cap" || (overflow === "lap" && outOfRange === "under")
+        ? outOfRange
+        : null;
+    if (!side) return null;
+    const capSpan = Math.min(8, arcSpan / 10);
+    const end = side === "over" ? angleAt(1) : angleAt(0);
+    // The cap reaches back into the arc from the passed end
+    const inner = end + (side === "over" ? -sweep : sweep) * capSpan;
+    const outer = isRing ? "butt" : "round";
+    return {
+      d: describeArcBand(
+        CX,
+        CY,
+        radius,
+        strokeWidth,
+        Math.min(end, inner),
+        Math.max(end, inner),
+        end < inner ? { start: outer } : { end: outer },
+      ),
+    };
+  })();
+  const lapPath =
+    lapFraction > originFraction
+      ? getArcPath(
+          CX,
+          CY,
+          radius,
+          arcSpan,
+          originFraction,
+          lapFraction,
+          start,
+          direction,
+        )
+      : null;
+  const stopPin = pegged
+    ? polarToCartesian(
+        CX,
+        CY,
+        radius,
+        outOfRange === "over"
+          ? angleAt(1) + sweep * (PEG_ANGLE + 3)
+          : angleAt(0) - sweep * (PEG_ANGLE + 3),
+      )
+    : null;
+
+  // Held extremes and the trail of ghost needles
+  const heldValues = useValueHold(value, hold, holdRef);
+  const holdMarks =
+    heldValues && range > 0
+      ? {
+          max:
+            heldValues.max === null
+              ? null
+              : { value: heldValues.max, angle: valueToAngle(heldValues.max) },
+          min:
+            heldValues.min === null
+              ? null
+              : { value: heldValues.min, angle: valueToAngle(heldValues.min) },
+          trail: showNeedle
+            ? heldValues.trail.map((t) => ({
+                angle: valueToAngle(t.value),
+                opacity: t.opacity,
+              }))
+            : [],
+        }
+      : null;
+
+  // ── Label positioning ──────────────────────────────────────────
+  const valueFontSize = arcSpan <= 180 ? 28 : 26;
+  const labelFontSize = 12;
+  const labelGap = valueFontSize * 0.65 + 4;
+  const opensDown = isBottomOpening(arcSpan, arcStart);
+
+  const valueY = (() => {
+    if (showNeedle) {
+      const offset = label ? radius * 0.42 : radius * 0.35;
+      return CY - offset;
+    }
+    // Rotated arcs center the value (and label) on the hub
+    if (!opensDown) return CY - (label ? labelGap / 2 : 0);
+    if (arcSpan <= 180) return CY - (label ? 4 : -4);
+    return CY + (label ? 2 : 6);
+  })();
+  const labelY = valueY + labelGap;
+
+  // Min/max labels continue past each arc end along the tangent
+  const minMaxLabels = showMinMax
+    ? [
+        { angle: angleAt(0), outward: -sweep, text: valueFormatter(min) },
+        { angle: angleAt(1), outward: sweep, text: valueFormatter(max) },
+      ].map(({ angle, outward, text }) => {
+        // Near-closed arcs leave no room beside the ends, so step the
+        // labels outside the track as well
+        const end = polarToCartesian(
+          CX,
+          CY,
+          arcSpan > 300 ? radius + strokeWidth / 2 + 8 : radius,
+          angle,
+        );
+        const rad = degToRad(angle);
+        const offset = strokeWidth / 2 + 12;
+        const x = end.x + outward * Math.cos(rad) * offset;
+        const y = end.y + outward * Math.sin(rad) * offset;
+        return { x, y, text, box: getTextBox(x, y, text, 11, "middle") };
+      })
+    : [];
+  const minMaxBoxes: LabelBox[] = minMaxLabels.map((l) => l.box);
+
+  // ── Tick scale ─────────────────────────────────────────────────
+  const tickFontSize = 9;
+  const majorTickValues =
+    range <= 0
+      ? []
+      : ticks
+        ? ticks.filter((v) => v >= min && v <= max).sort((a, b) => a - b)
+        : tickCount !== undefined
+          ? gaugeScale.ticks(tickCount)
+          : [];
+  const minorTickValues = getMinorTicks(majorTickValues, minorTicks);
+  const tickOutside = tickPlacement === "outside";
+  // Ticks start just past the track edge and point away from it
+  const tickDirection = tickOutside ? 1 : -1;
+  const tickEdge = radius + tickDirection * (strokeWidth / 2 + 2);
+  const scaleTicks = [
+    ...majorTickValues.map((v) => ({ value: v, length: 6, major: true })),
+    ...minorTickValues.map((v) => ({ value: v, length: 3, major: false })),
+  ].map((t) => {
+    const angle = valueToAngle(t.value);
+    return {
+      ...t,
+      from: polarToCartesian(CX, CY, tickEdge, angle),
+      to: polarToCartesian(
+        CX,
+        CY,
+        tickEdge + tickDirection * t.length,
+        angle,
+      ),
+    };
+  });
+  const tickLabels = majorTickValues.map((v) => {
+    const text = (tickFormatter ?? valueFormatter)(v);
+    return {
+      text,
+      ...placeRadialLabel({
+        cx: CX,
+        cy: CY,
+        radius: tickEdge + tickDirection * 9,
+        angleDeg: valueToAngle(v),
+        text,
+        fontSize: tickFontSize,
+        avoid: tickOutside ? minMaxBoxes : [],
+        inward: !tickOutside,
+      }),
+    };
+  });
+
+  // ── Markers ────────────────────────────────────────────────────
+  const markerFontSize = 10;
+  const markerLayout =
+    markers && markers.length > 0 && range > 0
+      ? layoutMarkers({
+          markers,
+          cx: CX,
+          cy: CY,
+          radius,
+          strokeWidth,
+          fontSize: markerFontSize,
+          getAngle: valueToAngle,
+          avoid: tickOutside
+            ? [...minMaxBoxes, ...tickLabels.map((t) => t.box)]
+            : minMaxBoxes,
+        })
+      : [];
+
+  // ── ViewBox sizing ─────────────────────────────────────────────
+  // Fit the painted arc plus everything drawn around it
+  const centerLabelBoxes = showLabel
+    ? [
+        getTextBox(CX, valueY, valueFormatter(value), valueFontSize, "middle"),
+        ...(label
+          ? [getTextBox(CX, labelY, label, labelFontSize, "middle")]
+          : []),
+      ].map((b) => padBox(b, 4))
+    : [];
+  const viewBox = unionBoxes([
+    padBox(getArcBounds(CX, CY, radius, arcSpan, arcStart), strokeWidth),
+    ...centerLabelBoxes,
+    ...minMaxBoxes.map((b) => padBox(b, 2)),
+    ...(showNeedle ? [padBox({ x: CX, y: CY, width: 0, height: 0 }, 9)] : []),
+    ...(stopPin ? [padBox({ ...stopPin, width: 0, height: 0 }, 4)] : []),
+    ...getMarkerBounds(markerLayout),
+    ...(tickOutside
+      ? [
+          ...scaleTicks.map((t) =>
+            padBox({ x: t.to.x, y: t.to.y, width: 0, height: 0 }, 2),
+          ),
+          ...tickLabels.map((t) => padBox(t.box, 2)),
+        ]
+      : []),
+  ]);
+
+  // Origin reference tick across the track
+  const originTick =
+    originValue !== undefined && originValue > min && originValue < max
+      ? (() => {
+          const angle = valueToAngle(originValue);
+          return {
+            from: polarToCartesian(
+              CX,
+              CY,
+              radius - strokeWidth / 2 - 2,
+              angle,
+            ),
+            to: polarToCartesian(
+              CX,
+              CY,
+              radius + strokeWidth / 2 + 2,
+              angle,
+            ),
+          };
+        })()
+      : null;
+
+  // Tapered needle path (triangle: narrow tip, wide base)
+  const needleBaseHalf = 3.5;
+  const needlePath = `M ${CX} ${CY - needleLength} L ${CX - needleBaseHalf} ${CY - 2} L ${CX + needleBaseHalf} ${CY - 2} Z`;
+
+  // ── Interaction ────────────────────────────────────────────────
+  const commitValue = (next: number) => {
+    const snapped = snapToStep(next, min, max, step);
+    if (snapped !== value) onValueChange?.(snapped);
+  };
+
+  /** Map a pointer position to a value via its angle around the center */
+  const valueFromPointer = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return null;
+    const x =
+      viewBox.x + ((e.clientX - rect.left) / rect.width) * viewBox.width;
+    const y =
+      viewBox.y + ((e.clientY - rect.top) / rect.height) * viewBox.height;
+    // atan2 with swapped axes gives 0° = up, clockwise (CSS rotation)
+    const angle = (Math.atan2(x - CX, CY - y) * 180) / Math.PI;
+    return gaugeScale.angleToValue(angle);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!interactive || disabled || e.button !== 0) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    e.currentTarget.focus();
+    setDragging(true);
+    const next = valueFromPointer(e);
+    if (next !== null) commitValue(next);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!dragging) return;
+    const next = valueFromPointer(e);
+    if (next !== null) commitValue(next);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!dragging) return;
+    e.currentTarget.releasePointerCapture?.(e.pointerId);
+    setDragging(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<SVGSVGElement>) => {
+    if (!interactive || disabled) return;
+    const current = Math.max(min, Math.min(max, value));
+    // PageUp/PageDown move by a tenth of the range, rounded to the step;
+    // on uneven scales, by a tenth of the arc instead
+    const pageStep = Math.max(step, Math.round(range / 10 / step) * step);
+    const page = (direction: number) =>
+      isLinearScale(scale, min)
+        ? current + direction * pageStep
+        : gaugeScale.fractionToValue(
+            gaugeScale.valueToFraction(current) + direction / 10,
+          );
+    let next: number;
+    switch (e.key) {
+      case "ArrowRight":
+      case "ArrowUp":
+        next = current + step;
+        break;
+      case "ArrowLeft":
+      case "ArrowDown":
+        next = current - step;
+        break;
+      case "PageUp":
+        next = page(1);
+        break;
+      case "PageDown":
+        next = page(-1);
+        break;
+      case "Home":
+        next = min;
+        break;
+      case "End":
+        next = max;
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+    commitValue(next);
+  };
+
+  const animate = showAnimation && !dragging;
+
+  return {
+    // Layout
+    cx: CX,
+    cy: CY,
+    radius,
+    strokeWidth,
+    arcSpan,
+    startAngle: start,
+    direction,
+    isRing,
+    scale: gaugeScale,
+    viewBox,
+    // State
+    value,
+    min,
+    max,
+    mounted,
+    dragging,
+    animate,
+    animationDuration,
+    interactive,
+    disabled,
+    fraction,
+    targetFraction,
+    originValue,
+    originFraction,
+    // Color
+    activeColor,
+    fillColor: fillHex,
+    defsId,
+    gradient: hasGradient
+      ? { stops: gradientStops, slices: gradientSlices }
+      : null,
+    // Arcs
+    trackPath,
+    fillPath,
+    segmented,
+    segmentCap,
+    blocks,
+    thresholdBands,
+    thresholdTicks,
+    originTick,
+    // Scale and markers
+    scaleTicks,
+    tickLabels,
+    tickFontSize,
+    markerLayout,
+    markerFontSize,
+    hold: holdMarks,
+    // Out of range
+    outOfRange,
+    overflow:
+      outOfRange && overflow !== "clamp"
+        ? {
+            mode: overflow,
+            color: overflowHex,
+            cap: overflowCap,
+            lapPath,
+            stopPin,
+          }
+        : null,
+    // Needle
+    needle: showNeedle
+      ? { angle: needleAngle, length: needleLength, path: needlePath }
+      : null,
+    // Labels
+    valueLabel: showLabel
+      ? {
+          x: CX,
+          y: valueY,
+          text: valueFormatter(displayValue),
+          fontSize: valueFontSize,
+        }
+      : null,
+    secondaryLabel:
+      showLabel && label
+        ? { x: CX, y: labelY, text: label, fontSize: labelFontSize }
+        : null,
+    minMaxLabels,
+    // Root element
+    svgProps: {
+      viewBox: `${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`,
+      role: interactive ? "slider" : "meter",
+      tabIndex: interactive && !disabled ? 0 : undefined,
+      "aria-valuenow": value,
+      "aria-valuemin": min,
+      "aria-valuemax": max,
+      "aria-valuetext": interactive ? valueFormatter(value) : undefined,
+      "aria-disabled": interactive && disabled ? true : undefined,
+      "aria-label": label
+        ? `${label}: ${valueFormatter(value)}`
+        : `Gauge: ${valueFormatter(value)}`,
+      onPointerDown: interactive ? handlePointerDown : undefined,
+      onPointerMove: interactive ? handlePointerMove : undefined,
+      onPointerUp: interactive ? handlePointerUp : undefined,
+      onPointerCancel: interactive ? handlePointerUp : undefined,
+      onKeyDown: interactive ? handleKeyDown : undefined,
+    } satisfies React.SVGProps<SVGSVGElement>,
+  };
+}
+
+/** Everything `useGauge` computes for one render */
+export type UseGaugeResult = ReturnType<typeof useGauge>;
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { useSpring } from "./useSpring";
+
+/** Step the spring frame by frame, recording each value */
+function run(result: { current: number }, frames: number) {
+  const trace: number[] = [];
+  for (let i = 0; i < frames; i++) {
+    act(() => {
+      vi.advanceTimersByTime(16);
+    });
+    trace.push(result.current);
+  }
+  return trace;
+}
+
+describe("useSpring", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({
+      toFake: ["requestAnimationFrame", "cancelAnimationFrame"],
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("springs from the start value and settles on the target", () => {
+    const { result } = renderHook(() => useSpring(1, { from: 0 }));
+    expect(result.current).toBe(0);
+    const trace = run(result, 120);
+    expect(trace[5]).toBeGreaterThan(0);
+    expect(trace[5]).toBeLessThan(1);
+    expect(result.current).toBe(1);
+  });
+
+  it("overshoots with a loose spring and not with a stiff damper", () => {
+    const loose = renderHook(() =>
+      useSpring(1, { from: 0, stiffness: 180, damping: 10 }),
+    );
+    expect(Math.max(...run(loose.result, 120))).toBeGreaterThan(1.05);
+    const damped = renderHook(() =>
+      useSpring(1, { from: 0, stiffness: 120, damping: 24 }),
+    );
+    expect(Math.max(...run(damped.result, 120))).toBeLessThanOrEqual(1);
+  });
+
+  it("keeps its momentum when the target changes", () => {
+    const { result, rerender } = renderHook(
+      ({ target }) => useSpring(target, { from: 0 }),
+      { initialProps: { target: 1 } },
+    );
+    run(result, 6);
+    const before = result.current;
+    rerender({ target: 0 });
+    const [next] = run(result, 1);
+    // Still travelling up for a moment, instead of restarting from rest
+    expect(next).toBeGreaterThan(before);
+    run(result, 120);
+    expect(result.current).toBe(0);
+  });
+
+  it("stays finite and settles with a zero mass or stiffness", () => {
+    const massless = renderHook(() => useSpring(1, { from: 0, mass: 0 }));
+    expect(run(massless.result, 120).every(Number.isFinite)).toBe(true);
+    expect(massless.result.current).toBe(1);
+    const slack = renderHook(() => useSpring(1, { from: 0, stiffness: 0 }));
+    expect(run(slack.result, 10).every(Number.isFinite)).toBe(true);
+  });
+
+  it("jumps when not animating", () => {
+    const { result, rerender } = renderHook(
+      ({ target }) => useSpring(target, { animate: false, from: 0 }),
+      { initialProps: { target: 0.4 } },
+    );
+    expect(result.current).toBe(0.4);
+    rerender({ target: 0.9 });
+    expect(result.current).toBe(0.9);
+  });
+
+  it("jumps when the user prefers reduced motion", () => {
+    vi.stubGlobal(
+      "matchMedia",
+      vi.fn(() => ({ matches: true })),
+    );
+    const { result } = renderHook(() => useSpring(1, { from: 0 }));
+    expect(result.current).toBe(1);
+  });
+});
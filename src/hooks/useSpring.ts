@@ -0,0 +1,89 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { type SpringConfig, prefersReducedMotion } from "../utils/animation";
+
+/** Largest integration step, in seconds; smaller keeps stiff springs stable */
+const MAX_STEP = 1 / 240;
+/** Longest frame gap simulated, so a background tab doesn't fling the value */
+const MAX_FRAME = 0.064;
+/** Step for a loop's first frame, which has no previous timestamp */
+const FIRST_FRAME = 1 / 60;
+/** Distance and speed below which the spring counts as settled */
+const REST = 1e-4;
+/** Smallest mass and stiffness simulated; zero would divide by zero */
+const MIN_CONSTANT = 1e-3;
+
+export interface SpringOptions extends SpringConfig {
+  /** Spring toward new targets; when false, the value jumps (default: true) */
+  animate?: boolean;
+  /** Value to start from on mount (default: the first target) */
+  from?: number;
+}
+
+/**
+ * Move a number toward `target` with a damped spring, stepped every
+ * animation frame. Unlike a tween, a new target keeps the current velocity,
+ * so rapid updates swing and settle like a physical needle instead of
+ * restarting. Honors `prefers-reduced-motion`.
+ */
+export function useSpring(
+  target: number,
+  {
+    animate = true,
+    from,
+    stiffness = 170,
+    damping = 26,
+    mass = 1,
+  }: SpringOptions = {},
+): number {
+  const [value, setValue] = useState(() =>
+    animate && from !== undefined ? from : target,
+  );
+  const state = useRef({ position: value, velocity: 0 });
+  // Latest constants, read by the running loop
+  const config = useRef({ stiffness, damping, mass });
+  config.current = { stiffness, damping, mass };
+
+  useEffect(() => {
+    const s = state.current;
+    if (!animate || prefersReducedMotion()) {
+      s.position = target;
+      s.velocity = 0;
+      setValue(target);
+      return;
+    }
+    let frame = 0;
+    let last: number | null = null;
+    const tick = (now: number) => {
+      const dt =
+        last === null ? FIRST_FRAME : Math.min(MAX_FRAME, (now - last) / 1000);
+      last = now;
+      const { stiffness, damping, mass } = config.current;
+      const k = Math.max(MIN_CONSTANT, stiffness);
+      const c = Math.max(0, damping);
+      const m = Math.max(MIN_CONSTANT, mass);
+      // Implicit Euler in fixed substeps, so a light or stiff spring stays
+      // stable instead of overshooting further each step
+      for (let left = dt; left > 0; left -= MAX_STEP) {
+        const h = Math.min(left, MAX_STEP);
+        s.velocity =
+          (s.velocity - ((k * h) / m) * (s.position - target)) /
+          (1 + (c * h) / m + (k * h * h) / m);
+        s.position += s.velocity * h;
+      }
+      const settled =
+        Math.abs(s.position - target) < REST && Math.abs(s.velocity) < REST;
+      if (settled) {
+        s.position = target;
+        s.velocity = 0;
+      }
+      setValue(s.position);
+      if (!settled) frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [target, animate]);
+
+  return animate ? value : target;
+}
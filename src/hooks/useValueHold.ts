@@ -0,0 +1,94 @@
+"use client";
+
+import {
+  type Ref,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from "react";
+import {
+  type GaugeHold,
+  type GaugeHoldHandle,
+  type HoldState,
+  createHoldState,
+  expireHold,
+  getHoldConfig,
+  getHoldTrail,
+  getNextHoldExpiry,
+  pushHoldSample,
+} from "../utils/hold";
+
+export interface ValueHold {
+  /** Highest value held, or null when not holding the max */
+  max: number | null;
+  /** Lowest value held, or null when not holding the min */
+  min: number | null;
+  /** Earlier values, oldest first, fading from 1 to 0 opacity */
+  trail: { value: number; opacity: number }[];
+  reset: () => void;
+}
+
+/**
+ * Track the extremes of a live value, and its recent history for a trail.
+ * Held values expire on timers and the trail fades every animation frame,
+ * so a quiet gauge still lets go of an old spike. Returns null when `hold`
+ * is off.
+ */
+export function useValueHold(
+  value: number,
+  hold: boolean | GaugeHold | undefined,
+  ref?: Ref<GaugeHoldHandle>,
+): ValueHold | null {
+  const config = getHoldConfig(hold);
+  const [state, setState] = useState<HoldState>(() =>
+    createHoldState(value, Date.now()),
+  );
+  // Latest settings and value, read by timers and the handle
+  const latest = useRef({ value, config });
+  latest.current = { value, config };
+
+  const reset = () =>
+    setState(createHoldState(latest.current.value, Date.now()));
+  useImperativeHandle(ref, () => ({ reset }), []); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const enabled = config !== null;
+  useEffect(() => {
+    if (!enabled) return;
+    setState((s) =>
+      s.samples[s.samples.length - 1].value === value
+        ? s
+        : pushHoldSample(s, value, Date.now(), latest.current.config!),
+    );
+  }, [value, enabled]);
+
+  // Wake when a held value decays or leaves the window
+  const expiry = config ? getNextHoldExpiry(state, config) : null;
+  useEffect(() => {
+    if (expiry === null) return;
+    const id = setTimeout(
+      () => setState((s) => expireHold(s, Date.now(), latest.current.config!)),
+      Math.max(0, expiry - Date.now()),
+    );
+    return () => clearTimeout(id);
+  }, [expiry]);
+
+  // Fade the trail until its last ghost is gone
+  const trail = config ? getHoldTrail(state, config) : [];
+  const fading = trail.length > 0;
+  useEffect(() => {
+    if (!fading) return;
+    const id = requestAnimationFrame(() =>
+      setState((s) => expireHold(s, Date.now(), latest.current.config!)),
+    );
+    return () => cancelAnimationFrame(id);
+  }, [fading, state]);
+
+  if (!config) return null;
+  return {
+    max: config.max ? state.max.value : null,
+    min: config.min ? state.min.value : null,
+    trail,
+    reset,
+  };
+}
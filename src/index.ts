@@ -1,4 +1,17 @@
 export { GaugeChart, type GaugeChartProps, type GaugeThreshold } from "./components/GaugeChart/GaugeChart";
 export { GaugeMulti, type GaugeMultiProps, type GaugeMultiDatum } from "./components/GaugeMulti/GaugeMulti";
+export { GaugeRings, getRingColor, type GaugeRingsProps, type GaugeRingDatum } from "./components/GaugeRings/GaugeRings";
+export { GaugeLinear, type GaugeLinearProps } from "./components/GaugeLinear/GaugeLinear";
+export { useGauge, type UseGaugeOptions, type UseGaugeResult } from "./hooks/useGauge";
 export { GaugeLegend, type GaugeLegendProps, type GaugeLegendItem } from "./components/GaugeLegend/GaugeLegend";
-export { type Color, colorValues, availableColors } from "./utils/chartColors";
+export { GaugeThemeProvider, useGaugeTheme, type GaugeTheme, type GaugeThemeProviderProps } from "./components/GaugeThemeProvider/GaugeThemeProvider";
+export { type Color, type ColorToken, colorValues, availableColors, getColorValue } from "./utils/chartColors";
+export { type GaugeStyling, type GaugeClassNames, getClassNames } from "./utils/styling";
+export { type GaugeEasing, type GaugeNeedleMotion, type SpringConfig } from "./utils/animation";
+export { type GaugeMarker } from "./utils/markers";
+export { type GaugeHold, type GaugeHoldHandle } from "./utils/hold";
+export { createGaugeScale, type GaugeScale, type GaugeScaleOptions } from "./utils/gaugeScale";
+export { type GaugeScaleType } from "./utils/scale";
+export { type GaugeGradient, type GaugeGradientStop } from "./utils/gradient";
+export { type GaugeDirection, type GaugeOrientation } from "./utils/arc";
+export { type GaugeLayer, type GaugeLayerContext, type GaugeLayerPosition } from "./utils/layers";
@@ -518,6 +518,7 @@ type DualArgs = {
   backendColor: Color;
   arcSpan: 180 | 240 | 270;
   strokeWidth: number;
+  mirrored: boolean;
   showAnimation: boolean;
 };
 
@@ -530,6 +531,7 @@ export const DualGaugeComparison: StoryObj<DualArgs> = {
     backendColor: "violet",
     arcSpan: 240,
     strokeWidth: 12,
+    mirrored: true,
     showAnimation: true,
   },
   argTypes: {
@@ -561,6 +563,7 @@ export const DualGaugeComparison: StoryObj<DualArgs> = {
     valueFormatter={(v) => \`\${v}%\`}
     arcSpan={240}
     strokeWidth={12}
+    direction="counterclockwise"
   />
 </div>`,
       },
@@ -606,6 +609,7 @@ export const DualGaugeComparison: StoryObj<DualArgs> = {
             valueFormatter={pct}
             strokeWidth={args.strokeWidth}
             arcSpan={args.arcSpan}
+            direction={args.mirrored ? "counterclockwise" : "clockwise"}
             showAnimation={args.showAnimation}
           />
           <div className="mt-2 grid grid-cols-2 gap-2 border-t border-gray-200 pt-2 dark:border-gray-800">
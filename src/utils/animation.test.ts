@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import {
+  getEasing,
+  getSpringConfig,
+  roundToPrecisionOf,
+} from "./animation";
+
+describe("getEasing", () => {
+  it("pins every named curve to 0 and 1 at the ends", () => {
+    for (const name of [
+      "linear",
+      "ease-in",
+      "ease-out",
+      "ease-in-out",
+    ] as const) {
+      const ease = getEasing(name);
+      expect(ease(0)).toBe(0);
+      expect(ease(1)).toBe(1);
+    }
+  });
+
+  it("defaults to ease-out", () => {
+    expect(getEasing()).toBe(getEasing("ease-out"));
+    expect(getEasing()(0.5)).toBeCloseTo(0.875);
+  });
+
+  it("shapes each curve", () => {
+    expect(getEasing("linear")(0.3)).toBe(0.3);
+    expect(getEasing("ease-in")(0.5)).toBeCloseTo(0.125);
+    expect(getEasing("ease-in-out")(0.5)).toBeCloseTo(0.5);
+    expect(getEasing("ease-in-out")(0.25)).toBeCloseTo(0.0625);
+  });
+
+  it("passes custom curves through", () => {
+    const step = (t: number) => (t < 1 ? 0 : 1);
+    expect(getEasing(step)).toBe(step);
+  });
+});
+
+describe("getSpringConfig", () => {
+  it("has no spring for the default tween", () => {
+    expect(getSpringConfig()).toBeNull();
+    expect(getSpringConfig("tween")).toBeNull();
+  });
+
+  it("resolves presets, from least to most bouncy", () => {
+    const ratio = (motion: "damped" | "snappy" | "overshoot") => {
+      const { stiffness, damping, mass } = getSpringConfig(motion)!;
+      return damping / (2 * Math.sqrt(stiffness * mass));
+    };
+    // A damping ratio of 1 or more settles without overshooting
+    expect(ratio("damped")).toBeGreaterThanOrEqual(1);
+    expect(ratio("snappy")).toBeLessThan(1);
+    expect(ratio("overshoot")).toBeLessThan(ratio("snappy"));
+  });
+
+  it("fills in defaults for a custom spring", () => {
+    expect(getSpringConfig({ damping: 8 })).toEqual({
+      stiffness: 170,
+      damping: 8,
+      mass: 1,
+    });
+  });
+});
+
+describe("roundToPrecisionOf", () => {
+  it("rounds to whole numbers between integers", () => {
+    expect(roundToPrecisionOf(43.2871, 72, 0)).toBe(43);
+  });
+
+  it("keeps the most decimals of the values", () => {
+    expect(roundToPrecisionOf(43.2871, 72.5, 0)).toBe(43.3);
+    expect(roundToPrecisionOf(0.43287, 0.85, 0)).toBe(0.43);
+  });
+
+  it("counts decimals of values in exponent notation", () => {
+    expect(roundToPrecisionOf(2.71828e-7, 5e-7, 0)).toBe(3e-7);
+    expect(roundToPrecisionOf(1.23456e-7, 1.5e-7, 0)).toBe(1.2e-7);
+    expect(roundToPrecisionOf(43.2871, 1e21, 0)).toBe(43);
+  });
+});
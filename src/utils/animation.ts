@@ -0,0 +1,91 @@
+/**
+ * Timing curves for the gauges' JS tweens. Named easings match their CSS
+ * counterparts in spirit (cubic curves); a function maps progress 0..1 to
+ * eased progress, and may overshoot for springy motion.
+ */
+export type GaugeEasing =
+  "linear" | "ease-in" | "ease-out" | "ease-in-out" | ((t: number) => number);
+
+const easings: Record<Extract<GaugeEasing, string>, (t: number) => number> = {
+  linear: (t) => t,
+  "ease-in": (t) => t * t * t,
+  // Fast start, gentle settle
+  "ease-out": (t) => 1 - Math.pow(1 - t, 3),
+  "ease-in-out": (t) =>
+    t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2,
+};
+
+/** Resolve an easing option to its curve (default: `"ease-out"`) */
+export function getEasing(easing: GaugeEasing = "ease-out") {
+  return typeof easing === "function" ? easing : easings[easing];
+}
+
+/** Spring constants; position is measured along the arc, 0 to 1 */
+export interface SpringConfig {
+  /** Pull toward the target (default: 170) */
+  stiffness?: number;
+  /** Friction against the motion (default: 26) */
+  damping?: number;
+  /** Inertia; heavier needles accelerate and settle slower (default: 1) */
+  mass?: number;
+}
+
+/**
+ * How a needle moves to a new value:
+ * - `"tween"` — follows the fill's eased tween, in step with the label
+ * - `"damped"` — spring that settles without overshooting
+ * - `"overshoot"` — loose spring that swings past and wobbles back
+ * - `"snappy"` — stiff spring with a quick, slight overshoot
+ * - `{ stiffness, damping, mass }` — a custom spring
+ */
+export type GaugeNeedleMotion =
+  "tween" | "damped" | "overshoot" | "snappy" | SpringConfig;
+
+const springPresets: Record<
+  Exclude<GaugeNeedleMotion, "tween" | SpringConfig>,
+  Required<SpringConfig>
+> = {
+  damped: { stiffness: 120, damping: 24, mass: 1 },
+  overshoot: { stiffness: 180, damping: 10, mass: 1 },
+  snappy: { stiffness: 400, damping: 32, mass: 1 },
+};
+
+/** Spring constants for a needle motion, or null for `"tween"` */
+export function getSpringConfig(
+  motion: GaugeNeedleMotion = "tween",
+): Required<SpringConfig> | null {
+  if (motion === "tween") return null;
+  if (typeof motion === "string") return springPresets[motion];
+  return {
+    stiffness: motion.stiffness ?? 170,
+    damping: motion.damping ?? 26,
+    mass: motion.mass ?? 1,
+  };
+}
+
+export function prefersReducedMotion(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    typeof window.matchMedia === "function" &&
+    window.matchMedia("(prefers-reduced-motion: reduce)").matches
+  );
+}
+
+function countDecimals(n: number): number {
+  if (!Number.isFinite(n)) return 0;
+  // Exponent form, so 5e-7 counts 7 decimals rather than none
+  const [mantissa, exponent] = n.toExponential().split("e");
+  const [, decimals = ""] = mantissa.split(".");
+  return Math.max(0, decimals.length - Number(exponent));
+}
+
+/**
+ * Round an in-between value to the precision of the values it runs between,
+ * so a label counting from 0 to 72 shows whole numbers and one counting to
+ * 72.5 shows tenths.
+ */
+export function roundToPrecisionOf(value: number, ...values: number[]) {
+  const digits = Math.min(10, Math.max(0, ...values.map(countDecimals)));
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
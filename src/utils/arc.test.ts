@@ -2,9 +2,18 @@ import { describe, it, expect } from "vitest";
 import {
   degToRad,
   polarToCartesian,
-  getArcDash,
+  describeArc,
+  describeArcBand,
+  getArcPath,
   getNeedleAngle,
-  getSegmentArcs,
+  getSegmentPaths,
+  splitArc,
+  getValueFromAngle,
+  getStartAngle,
+  getArcStart,
+  getArcBounds,
+  clampArcSpan,
+  isBottomOpening,
 } from "./arc";
 
 describe("degToRad", () => {
@@ -35,48 +44,165 @@ describe("polarToCartesian", () => {
   });
 });
 
-describe("getArcDash", () => {
-  const radius = 40;
-  const circumference = 2 * Math.PI * radius;
+describe("getStartAngle", () => {
+  it("centers the opening at the bottom by default", () => {
+    expect(getStartAngle(180)).toBe(270);
+    expect(getStartAngle(270)).toBe(225);
+    expect(getStartAngle(360)).toBe(0);
+    expect(getStartAngle(360, "left")).toBe(0);
+  });
+
+  it("rotates the opening to the requested side", () => {
+    expect(getStartAngle(180, "top")).toBe(90);
+    expect(getStartAngle(180, "left")).toBe(0);
+    expect(getStartAngle(180, "right")).toBe(180);
+    expect(getStartAngle(90, "top")).toBe(135);
+  });
+
+  it("starts counterclockwise arcs at the other end", () => {
+    expect(getStartAngle(180, "bottom", "counterclockwise")).toBe(90);
+    expect(getStartAngle(270, "bottom", "counterclockwise")).toBe(135);
+    expect(getStartAngle(180, "left", "counterclockwise")).toBe(180);
+    expect(getStartAngle(360, "bottom", "counterclockwise")).toBe(0);
+  });
+});
+
+describe("getArcStart", () => {
+  it("returns the clockwise-most end of the arc", () => {
+    expect(getArcStart(180, 270)).toBe(270);
+    expect(getArcStart(180, 90, "counterclockwise")).toBe(-90);
+  });
+});
 
-  it("returns correct values for a 180° arc at 0% fill", () => {
-    const result = getArcDash(radius, 180, 0);
-    const arcLength = (180 / 360) * circumference;
-    expect(result.circumference).toBeCloseTo(circumference);
-    expect(result.dashArray).toBe(`${arcLength} ${circumference}`);
-    expect(result.dashOffset).toBeCloseTo(arcLength); // fully hidden
-    expect(result.rotationDeg).toBe(180); // 90 + (360-180)/2
+describe("clampArcSpan", () => {
+  it("limits spans to 1..360", () => {
+    expect(clampArcSpan(0)).toBe(1);
+    expect(clampArcSpan(90)).toBe(90);
+    expect(clampArcSpan(400)).toBe(360);
   });
+});
 
-  it("returns correct values for a 180° arc at 100% fill", () => {
-    const result = getArcDash(radius, 180, 1);
-    expect(result.dashOffset).toBeCloseTo(0); // fully visible
+describe("isBottomOpening", () => {
+  it("detects the classic bottom-opening layout", () => {
+    expect(isBottomOpening(180, 270)).toBe(true);
+    expect(isBottomOpening(270, getStartAngle(270))).toBe(true);
+    expect(isBottomOpening(180, getStartAngle(180, "top"))).toBe(false);
   });
+});
+
+describe("getArcBounds", () => {
+  it("covers the top half for a default 180° arc", () => {
+    const box = getArcBounds(100, 100, 50, 180);
+    expect(box.x).toBeCloseTo(50);
+    expect(box.y).toBeCloseTo(50);
+    expect(box.width).toBeCloseTo(100);
+    expect(box.height).toBeCloseTo(50);
+  });
+
+  it("covers a single quadrant for a quarter arc", () => {
+    // 9 o'clock to 12 o'clock
+    const box = getArcBounds(100, 100, 50, 90, 270);
+    expect(box.x).toBeCloseTo(50);
+    expect(box.y).toBeCloseTo(50);
+    expect(box.width).toBeCloseTo(50);
+    expect(box.height).toBeCloseTo(50);
+  });
+
+  it("covers the whole circle for a 360° arc", () => {
+    const box = getArcBounds(100, 100, 50, 360);
+    expect(box.width).toBeCloseTo(100);
+    expect(box.height).toBeCloseTo(100);
+  });
+});
 
-  it("returns correct values for a 180° arc at 50% fill", () => {
-    const result = getArcDash(radius, 180, 0.5);
-    const arcLength = (180 / 360) * circumference;
-    expect(result.dashOffset).toBeCloseTo(arcLength * 0.5);
+describe("describeArc", () => {
+  it("draws a clockwise arc between two angles", () => {
+    // 9 o'clock over the top to 3 o'clock
+    expect(describeArc(100, 100, 90, 270, 450)).toBe(
+      "M 10 100 A 90 90 0 0 1 190 100",
+    );
   });
 
-  it("returns correct rotation for 270° arc", () => {
-    const result = getArcDash(radius, 270, 0);
-    expect(result.rotationDeg).toBe(135); // 90 + (360-270)/2
+  it("sets the large-arc flag past 180°", () => {
+    expect(describeArc(100, 100, 50, 0, 270)).toBe(
+      "M 100 50 A 50 50 0 1 1 50 100",
+    );
   });
 
-  it("returns correct rotation for 240° arc", () => {
-    const result = getArcDash(radius, 240, 0);
-    expect(result.rotationDeg).toBe(150); // 90 + (360-240)/2
+  it("closes a full circle with two half arcs", () => {
+    expect(describeArc(100, 100, 50, 0, 360)).toBe(
+      "M 100 50 A 50 50 0 1 1 100 150 A 50 50 0 1 1 100 50",
+    );
   });
 
-  it("clamps fraction to 0..1", () => {
-    const overResult = getArcDash(radius, 180, 1.5);
-    const fullResult = getArcDash(radius, 180, 1);
-    expect(overResult.dashOffset).toBeCloseTo(fullResult.dashOffset);
+  it("returns an empty path for an empty span", () => {
+    expect(describeArc(100, 100, 50, 90, 90)).toBe("");
+    expect(describeArc(100, 100, 50, 90, 45)).toBe("");
+  });
+});
+
+describe("getArcPath", () => {
+  it("draws the whole track for 0..1", () => {
+    expect(getArcPath(100, 100, 90, 180, 0, 1)).toBe(
+      describeArc(100, 100, 90, 270, 450),
+    );
+  });
+
+  it("draws the range between two fractions in either order", () => {
+    const expected = describeArc(100, 100, 90, 360, 405);
+    expect(getArcPath(100, 100, 90, 180, 0.5, 0.75)).toBe(expected);
+    expect(getArcPath(100, 100, 90, 180, 0.75, 0.5)).toBe(expected);
+  });
+
+  it("starts at a custom angle", () => {
+    expect(getArcPath(100, 100, 50, 90, 0, 1, 0)).toBe(
+      "M 100 50 A 50 50 0 0 1 150 100",
+    );
+  });
+
+  it("clamps fractions to 0..1", () => {
+    expect(getArcPath(100, 100, 90, 180, -0.5, 1.5)).toBe(
+      getArcPath(100, 100, 90, 180, 0, 1),
+    );
+    expect(getArcPath(100, 100, 90, 180, 0, 0)).toBe("");
+  });
+});
+
+describe("describeArcBand", () => {
+  it("outlines a band with butt ends by default", () => {
+    // Quarter band from 12 to 3 o'clock, 40..60 around radius 50
+    expect(describeArcBand(100, 100, 50, 20, 0, 90)).toBe(
+      "M 100 40 A 60 60 0 0 1 160 100 L 140 100 A 40 40 0 0 0 100 60 Z",
+    );
+  });
+
+  it("rounds each end independently", () => {
+    const d = describeArcBand(100, 100, 50, 20, 0, 90, {
+      start: "round",
+      end: "butt",
+    });
+    expect(d).toBe(
+      "M 100 40 A 60 60 0 0 1 160 100 L 140 100 A 40 40 0 0 0 100 60 " +
+        "A 10 10 0 0 1 100 40 Z",
+    );
+  });
+
+  it("draws a full band as two circles", () => {
+    const d = describeArcBand(100, 100, 50, 20, 0, 360);
+    expect(d.match(/M/g)).toHaveLength(2);
+    expect(d).toContain("A 60 60");
+    expect(d).toContain("A 40 40");
+  });
+});
 
-    const underResult = getArcDash(radius, 180, -0.5);
-    const emptyResult = getArcDash(radius, 180, 0);
-    expect(underResult.dashOffset).toBeCloseTo(emptyResult.dashOffset);
+describe("getArcPath counterclockwise", () => {
+  it("measures fractions back from the far end", () => {
+    expect(
+      getArcPath(100, 100, 90, 180, 0, 0.25, undefined, "counterclockwise"),
+    ).toBe(getArcPath(100, 100, 90, 180, 0.75, 1));
+    expect(
+      getArcPath(100, 100, 90, 180, 0, 1, undefined, "counterclockwise"),
+    ).toBe(getArcPath(100, 100, 90, 180, 0, 1));
   });
 });
 
@@ -120,37 +246,164 @@ describe("getNeedleAngle", () => {
   });
 });
 
-describe("getSegmentArcs", () => {
-  const radius = 40;
-  const circumference = 2 * Math.PI * radius;
+describe("getNeedleAngle with startAngle", () => {
+  it("starts from the custom angle", () => {
+    expect(getNeedleAngle(0, 0, 100, 90, 270)).toBe(270);
+    expect(getNeedleAngle(100, 0, 100, 90, 270)).toBe(360);
+  });
+});
+
+describe("getNeedleAngle counterclockwise", () => {
+  it("runs from the right end to the left on a 180° arc", () => {
+    expect(
+      getNeedleAngle(0, 0, 100, 180, undefined, "linear", "counterclockwise"),
+    ).toBe(90);
+    expect(
+      getNeedleAngle(50, 0, 100, 180, undefined, "linear", "counterclockwise"),
+    ).toBe(0);
+    expect(
+      getNeedleAngle(100, 0, 100, 180, undefined, "linear", "counterclockwise"),
+    ).toBe(-90);
+  });
+});
+
+describe("getValueFromAngle", () => {
+  it("maps the 180° arc ends and midpoint back to values", () => {
+    expect(getValueFromAngle(270, 0, 100, 180)).toBeCloseTo(0);
+    expect(getValueFromAngle(0, 0, 100, 180)).toBeCloseTo(50);
+    expect(getValueFromAngle(90, 0, 100, 180)).toBeCloseTo(100);
+  });
+
+  it("round-trips getNeedleAngle on a 270° arc", () => {
+    for (const v of [20, 35, 50, 80]) {
+      const angle = getNeedleAngle(v, 20, 80, 270);
+      expect(getValueFromAngle(angle, 20, 80, 270)).toBeCloseTo(v);
+    }
+  });
+
+  it("round-trips a rotated quarter arc", () => {
+    const angle = getNeedleAngle(25, 0, 100, 90, 0);
+    expect(getValueFromAngle(angle, 0, 100, 90, 0)).toBeCloseTo(25);
+  });
+
+  it("round-trips getNeedleAngle on a log scale", () => {
+    for (const v of [2, 30, 450, 9000]) {
+      const angle = getNeedleAngle(v, 1, 10000, 240, 240, "log");
+      expect(getValueFromAngle(angle, 1, 10000, 240, 240, "log")).toBeCloseTo(
+        v,
+      );
+    }
+  });
+
+  it("round-trips getNeedleAngle counterclockwise", () => {
+    for (const v of [0, 20, 65, 100]) {
+      const angle = getNeedleAngle(
+        v,
+        0,
+        100,
+        240,
+        120,
+        "linear",
+        "counterclockwise",
+      );
+      expect(
+        getValueFromAngle(
+          angle,
+          0,
+          100,
+          240,
+          120,
+          "linear",
+          "counterclockwise",
+        ),
+      ).toBeCloseTo(v);
+    }
+  });
+
+  it("snaps angles in the gap to the nearest end", () => {
+    // 180° arc: gap is the bottom half, 135° is nearer the max end
+    expect(getValueFromAngle(135, 0, 100, 180)).toBe(100);
+    expect(getValueFromAngle(225, 0, 100, 180)).toBe(0);
+  });
+});
+
+describe("getSegmentPaths", () => {
+  const radius = 90;
 
   it("returns one segment filling the whole arc", () => {
-    const segments = getSegmentArcs(radius, 180, [1]);
+    const segments = getSegmentPaths(100, 100, radius, 180, [1]);
     expect(segments).toHaveLength(1);
-    const arcLength = (180 / 360) * circumference;
-    expect(segments[0].dashArray).toBe(`${arcLength} ${circumference}`);
-    expect(segments[0].dashOffset).toBeCloseTo(0);
-  });
-
-  it("returns two equal segments", () => {
-    const segments = getSegmentArcs(radius, 180, [0.5, 0.5]);
-    const arcLength = (180 / 360) * circumference;
-    const halfArc = arcLength * 0.5;
-
-    expect(segments).toHaveLength(2);
-    expect(segments[0].dashArray).toBe(`${halfArc} ${circumference}`);
-    expect(segments[0].dashOffset).toBeCloseTo(0);
-    expect(segments[1].dashArray).toBe(`${halfArc} ${circumference}`);
-    expect(segments[1].dashOffset).toBeCloseTo(-halfArc);
-  });
-
-  it("handles three unequal segments", () => {
-    const segments = getSegmentArcs(radius, 270, [0.5, 0.3, 0.2]);
-    expect(segments).toHaveLength(3);
-    // Each should start where previous ended
-    expect(segments[0].dashOffset).toBeCloseTo(0);
-    const arcLength = (270 / 360) * circumference;
-    expect(segments[1].dashOffset).toBeCloseTo(-(arcLength * 0.5));
-    expect(segments[2].dashOffset).toBeCloseTo(-(arcLength * 0.8));
+    expect(segments[0]).toEqual({
+      d: getArcPath(100, 100, radius, 180, 0, 1),
+      startAngle: 270,
+      endAngle: 450,
+    });
+  });
+
+  it("starts each segment where the previous one ended", () => {
+    const segments = getSegmentPaths(100, 100, radius, 270, [0.5, 0.3, 0.2]);
+    expect(segments.map((s) => [s.startAngle, s.endAngle])).toEqual([
+      [225, 360],
+      [360, 441],
+      [441, 495],
+    ]);
+  });
+
+  it("shortens and centers segments to leave gaps", () => {
+    // An arc length of π·r/90 is 2° at this radius
+    const gap = (Math.PI * radius) / 90;
+    const [first, second] = getSegmentPaths(
+      100,
+      100,
+      radius,
+      180,
+      [0.5, 0.5],
+      gap,
+    );
+    expect(first.startAngle).toBeCloseTo(271);
+    expect(first.endAngle).toBeCloseTo(359);
+    expect(second.startAngle).toBeCloseTo(361);
+  });
+
+  it("collapses segments shorter than the gap", () => {
+    const [segment] = getSegmentPaths(100, 100, radius, 1, [1], 100);
+    expect(segment.d).toBe("");
+  });
+
+  it("starts at a custom angle", () => {
+    const [segment] = getSegmentPaths(100, 100, radius, 90, [1], 0, 0);
+    expect(segment.startAngle).toBe(0);
+    expect(segment.endAngle).toBe(90);
+  });
+
+  it("lays segments out counterclockwise from the start", () => {
+    const segments = getSegmentPaths(
+      100,
+      100,
+      radius,
+      180,
+      [0.25, 0.75],
+      0,
+      undefined,
+      "counterclockwise",
+    );
+    expect(segments.map((s) => [s.startAngle, s.endAngle])).toEqual([
+      [45, 90],
+      [-90, 45],
+    ]);
+  });
+});
+
+describe("splitArc", () => {
+  it("splits a span into equal slices no wider than the step", () => {
+    expect(splitArc(0, 10, 4)).toEqual([
+      [0, 10 / 3],
+      [10 / 3, 20 / 3],
+      [20 / 3, 10],
+    ]);
+  });
+
+  it("returns no slices for an empty span", () => {
+    expect(splitArc(90, 90)).toEqual([]);
   });
 });
@@ -1,10 +1,72 @@
 /**
  * SVG math utilities for gauge rendering.
  *
- * The gauge is rendered using SVG `<circle>` elements with `stroke-dasharray`
- * and `stroke-dashoffset` to draw partial arcs. The arc origin starts at
- * the bottom-center and extends symmetrically.
+ * Arcs are drawn as SVG `<path>` elements built from `A` (elliptical arc)
+ * commands, so every segment has its own caps, gaps are real gaps, and the
+ * markup exports faithfully. By default the arc's opening is centered at
+ * the bottom and the arc extends symmetrically; `startAngle` rotates it
+ * anywhere around the circle.
+ *
+ * Value ↔ angle helpers take an optional `GaugeScaleType` (see `scale.ts`)
+ * and default to a linear scale.
+ *
+ * Angles passed in and out of these helpers use CSS rotation coordinates:
+ * 0° = 12 o'clock, increasing clockwise. Values run clockwise from the
+ * start angle unless a helper is given `direction: "counterclockwise"`, in
+ * which case they run the other way from it.
+ */
+
+import { type GaugeScaleType, getValueScale } from "./scale";
+
+/** Side of the gauge the arc's opening faces */
+export type GaugeOrientation = "bottom" | "top" | "left" | "right";
+
+/** Which way values run around the arc, from min to max */
+export type GaugeDirection = "clockwise" | "counterclockwise";
+
+const gapCenterAngles: Record<GaugeOrientation, number> = {
+  top: 0,
+  right: 90,
+  bottom: 180,
+  left: 270,
+};
+
+/** Clamp an arc span to the supported 1–360° range */
+export function clampArcSpan(arcSpan: number): number {
+  return Math.max(1, Math.min(360, arcSpan));
+}
+
+/**
+ * Angle where an arc of `arcSpan` degrees starts so that its opening is
+ * centered on the `orientation` side.
+ *
+ * For the default bottom opening this is 270° (9 o'clock) for a 180° arc
+ * and 225° for a 270° arc. A full 360° ring has no opening and starts at
+ * 12 o'clock, like most progress rings. Counterclockwise, values start at
+ * the other end of the same arc (90° for a 180° arc).
+ */
+export function getStartAngle(
+  arcSpan: number,
+  orientation: GaugeOrientation = "bottom",
+  direction: GaugeDirection = "clockwise",
+): number {
+  if (arcSpan >= 360) return 0;
+  const start = gapCenterAngles[orientation] + (360 - arcSpan) / 2;
+  return (direction === "counterclockwise" ? start + arcSpan : start) % 360;
+}
+
+/**
+ * Clockwise-most end of an arc whose values start at `startAngle`: the
+ * start itself, or the far end for a counterclockwise arc. Helpers that
+ * only care about the arc's shape (bounds, opening) take this angle.
  */
+export function getArcStart(
+  arcSpan: number,
+  startAngle: number,
+  direction: GaugeDirection = "clockwise",
+): number {
+  return direction === "counterclockwise" ? startAngle - arcSpan : startAngle;
+}
 
 /** Convert degrees to radians */
 export function degToRad(deg: number): number {
@@ -26,87 +88,273 @@ export function polarToCartesian(
 }
 
 /**
- * For a circle-based arc gauge, calculate stroke-dasharray and stroke-dashoffset.
- *
- * @param radius - circle radius
- * @param arcSpan - total arc span in degrees (e.g. 180, 240, 270)
- * @param fraction - how much of the arc to fill (0..1)
- * @returns { circumference, dashArray, dashOffset, rotationDeg }
+ * True when the arc's opening is centered at the bottom (its midpoint
+ * points straight up), i.e. the classic dial layout.
+ */
+export function isBottomOpening(arcSpan: number, startAngle: number): boolean {
+  const mid = (((startAngle + arcSpan / 2) % 360) + 360) % 360;
+  return Math.min(mid, 360 - mid) < 0.5;
+}
+
+/** Round path coordinates so `d` strings stay short and stable */
+function fmt(n: number): number {
+  return Math.round(n * 1000) / 1000;
+}
+
+/**
+ * Path data for a circular arc from `startAngle` to `endAngle` (clockwise).
+ * Spans of 360° or more are drawn as a closed circle from two half arcs;
+ * an empty span returns an empty string.
  */
-export function getArcDash(
+export function describeArc(
+  cx: number,
+  cy: number,
+  radius: number,
+  startAngle: number,
+  endAngle: number,
+): string {
+  const span = endAngle - startAngle;
+  if (span <= 1e-6) return "";
+  const start = polarToCartesian(cx, cy, radius, startAngle);
+  const r = fmt(radius);
+  if (span >= 360 - 1e-6) {
+    const mid = polarToCartesian(cx, cy, radius, startAngle + 180);
+    return (
+      `M ${fmt(start.x)} ${fmt(start.y)} ` +
+      `A ${r} ${r} 0 1 1 ${fmt(mid.x)} ${fmt(mid.y)} ` +
+      `A ${r} ${r} 0 1 1 ${fmt(start.x)} ${fmt(start.y)}`
+    );
+  }
+  const end = polarToCartesian(cx, cy, radius, endAngle);
+  const largeArc = span > 180 ? 1 : 0;
+  return `M ${fmt(start.x)} ${fmt(start.y)} A ${r} ${r} 0 ${largeArc} 1 ${fmt(end.x)} ${fmt(end.y)}`;
+}
+
+/**
+ * Path data for the part of a gauge arc between two fractions (0..1, in
+ * either order). `getArcPath(…, 0, 1)` is the whole track.
+ */
+export function getArcPath(
+  cx: number,
+  cy: number,
   radius: number,
   arcSpan: number,
-  fraction: number,
-): {
-  circumference: number;
-  dashArray: string;
-  dashOffset: number;
-  rotationDeg: number;
-} {
-  const circumference = 2 * Math.PI * radius;
-  const arcLength = (arcSpan / 360) * circumference;
-  const filledLength = arcLength * Math.max(0, Math.min(1, fraction));
-
-  // dashArray: show arcLength of the total circumference
-  // dashOffset: shift to show only the filled portion
-  const dashArray = `${arcLength} ${circumference}`;
-  const dashOffset = arcLength - filledLength;
-
-  // Rotate so the arc starts at the bottom-left
-  // For a 180° arc: rotation = 180° (starts at left, ends at right)
-  // For a 270° arc: rotation = 135° (centered at bottom)
-  const rotationDeg = 90 + (360 - arcSpan) / 2;
-
-  return { circumference, dashArray, dashOffset, rotationDeg };
+  fromFraction: number,
+  toFraction: number,
+  startAngle?: number,
+  direction: GaugeDirection = "clockwise",
+): string {
+  const start = startAngle ?? getStartAngle(arcSpan, "bottom", direction);
+  const clamp = (f: number) => Math.max(0, Math.min(1, f));
+  let lo = clamp(Math.min(fromFraction, toFraction));
+  let hi = clamp(Math.max(fromFraction, toFraction));
+  // Counterclockwise, the same stretch measured back from the far end
+  if (direction === "counterclockwise") [lo, hi] = [1 - hi, 1 - lo];
+  const arcStart = getArcStart(arcSpan, start, direction);
+  return describeArc(
+    cx,
+    cy,
+    radius,
+    arcStart + lo * arcSpan,
+    arcStart + hi * arcSpan,
+  );
+}
+
+/**
+ * Filled outline of a thick arc, `width` wide and centered on `radius`,
+ * with butt or round ends. Unlike a stroked path, each end gets its own
+ * cap, so adjoining bands tile cleanly while the outer ends stay rounded.
+ * Round caps extend past the angles by half the width, like `stroke-linecap`.
+ */
+export function describeArcBand(
+  cx: number,
+  cy: number,
+  radius: number,
+  width: number,
+  startAngle: number,
+  endAngle: number,
+  caps: { start?: "butt" | "round"; end?: "butt" | "round" } = {},
+): string {
+  const span = endAngle - startAngle;
+  if (span <= 1e-6) return "";
+  const outerR = radius + width / 2;
+  const innerR = Math.max(0, radius - width / 2);
+  const capR = fmt(width / 2);
+  const largeArc = span > 180 ? 1 : 0;
+  const p = (r: number, angle: number) => {
+    const pt = polarToCartesian(cx, cy, r, angle);
+    return `${fmt(pt.x)} ${fmt(pt.y)}`;
+  };
+  // A full band is two concentric circles (even-odd hole)
+  if (span >= 360 - 1e-6) {
+    return [
+      describeArc(cx, cy, outerR, startAngle, startAngle + 360),
+      describeArc(cx, cy, innerR, startAngle, startAngle + 360),
+    ].join(" ");
+  }
+  const endCap =
+    caps.end === "round"
+      ? `A ${capR} ${capR} 0 0 1 ${p(innerR, endAngle)}`
+      : `L ${p(innerR, endAngle)}`;
+  const startCap =
+    caps.start === "round"
+      ? `A ${capR} ${capR} 0 0 1 ${p(outerR, startAngle)}`
+      : "Z";
+  return [
+    `M ${p(outerR, startAngle)}`,
+    `A ${fmt(outerR)} ${fmt(outerR)} 0 ${largeArc} 1 ${p(outerR, endAngle)}`,
+    endCap,
+    `A ${fmt(innerR)} ${fmt(innerR)} 0 ${largeArc} 0 ${p(innerR, startAngle)}`,
+    startCap,
+    ...(caps.start === "round" ? ["Z"] : []),
+  ].join(" ");
 }
 
 /**
  * Calculate needle CSS rotation angle for a given value in range [min, max].
  * Returns degrees for CSS `rotate()` where 0° = 12 o'clock (up), 90° = 3 o'clock.
  *
- * The SVG circle path starts at 3 o'clock and the arc is rotated by
- * `baseRotation` degrees. An additional +90° converts from SVG circle
- * coordinates (0° = right) to CSS rotation coordinates (0° = up).
+ * The result is `startAngle` plus the filled portion of the span and is not
+ * wrapped to [0, 360), so CSS transitions between values never spin the
+ * long way around.
  */
 export function getNeedleAngle(
   value: number,
   min: number,
   max: number,
   arcSpan: number,
+  startAngle?: number,
+  scale: GaugeScaleType = "linear",
+  direction: GaugeDirection = "clockwise",
+): number {
+  const start = startAngle ?? getStartAngle(arcSpan, "bottom", direction);
+  const fraction = getValueScale(scale, min, max).toFraction(value);
+  const sweep = direction === "counterclockwise" ? -1 : 1;
+  return start + sweep * fraction * arcSpan;
+}
+
+/**
+ * Inverse of `getNeedleAngle`: map a CSS rotation angle (0° = up, clockwise)
+ * back to a value in [min, max].
+ *
+ * Angles that fall inside the gap of the arc snap to whichever end is
+ * closer, so dragging past either end pins the value to min or max.
+ */
+export function getValueFromAngle(
+  angle: number,
+  min: number,
+  max: number,
+  arcSpan: number,
+  startAngle?: number,
+  scale: GaugeScaleType = "linear",
+  direction: GaugeDirection = "clockwise",
 ): number {
-  const clamped = Math.max(min, Math.min(max, value));
-  const fraction = max === min ? 0 : (clamped - min) / (max - min);
-  // Base rotation: where the arc starts (same formula as getArcDash)
-  const baseRotation = 90 + (360 - arcSpan) / 2;
-  // +90 converts from SVG circle coords (0°=right) to CSS rotation (0°=up)
-  return baseRotation + fraction * arcSpan + 90;
+  const start = startAngle ?? getStartAngle(arcSpan, "bottom", direction);
+  // Distance traveled from the start, in the arc's direction
+  const travel =
+    direction === "counterclockwise" ? start - angle : angle - start;
+  const offset = ((travel % 360) + 360) % 360;
+  let fraction: number;
+  if (offset <= arcSpan) {
+    fraction = arcSpan === 0 ? 0 : offset / arcSpan;
+  } else {
+    // Inside the gap: first half belongs to the end, second half to the start
+    fraction = offset - arcSpan < (360 - arcSpan) / 2 ? 1 : 0;
+  }
+  return getValueScale(scale, min, max).fromFraction(fraction);
 }
 
 /**
- * For multi-segment gauges, compute per-segment dasharray/offset values.
+ * For multi-segment gauges, compute one arc path per segment, laid out
+ * from the start in the arc's direction.
  *
- * @param radius - circle radius
- * @param arcSpan - total arc span in degrees
  * @param segments - array of fractional sizes (should sum to 1)
- * @returns array of { dashArray, dashOffset } per segment
+ * @param gap - arc length left empty between segments; each segment is
+ *   shortened by `gap` and centered in its slot (default: 0)
+ * @returns array of { d, startAngle, endAngle } per segment, with
+ *   `startAngle` the clockwise-most end
  */
-export function getSegmentArcs(
+export function getSegmentPaths(
+  cx: number,
+  cy: number,
   radius: number,
   arcSpan: number,
   segments: number[],
-): Array<{ dashArray: string; dashOffset: number }> {
-  const circumference = 2 * Math.PI * radius;
-  const totalArcLength = (arcSpan / 360) * circumference;
-
-  let consumedLength = 0;
+  gap = 0,
+  startAngle?: number,
+  direction: GaugeDirection = "clockwise",
+): Array<{ d: string; startAngle: number; endAngle: number }> {
+  const start = startAngle ?? getStartAngle(arcSpan, "bottom", direction);
+  const ccw = direction === "counterclockwise";
+  // Convert the gap from arc length to degrees at this radius
+  const gapDeg = radius > 0 ? (gap / (2 * Math.PI * radius)) * 360 : 0;
+  let consumed = 0;
 
   return segments.map((fraction) => {
-    const segmentLength = totalArcLength * fraction;
-    // Each segment: its own dashArray shows only its length
-    const dashArray = `${segmentLength} ${circumference}`;
-    // Offset to position this segment after all previous ones
-    const dashOffset = -consumedLength;
-    consumedLength += segmentLength;
-    return { dashArray, dashOffset };
+    const slot = arcSpan * fraction;
+    const visible = Math.max(0, slot - gapDeg);
+    const offset = consumed + (slot - visible) / 2;
+    const from = ccw ? start - offset - visible : start + offset;
+    consumed += slot;
+    return {
+      d: describeArc(cx, cy, radius, from, from + visible),
+      startAngle: from,
+      endAngle: from + visible,
+    };
   });
 }
+
+/**
+ * Split an arc into equal slices no wider than `maxStep` degrees, e.g. to
+ * paint a gradient along it one color per slice.
+ *
+ * @returns array of [startAngle, endAngle] per slice; empty for an empty span
+ */
+export function splitArc(
+  startAngle: number,
+  endAngle: number,
+  maxStep = 2,
+): Array<[number, number]> {
+  const span = endAngle - startAngle;
+  if (span <= 1e-6) return [];
+  const count = Math.max(1, Math.ceil(span / maxStep));
+  const step = span / count;
+  return Array.from({ length: count }, (_, i) => [
+    startAngle + i * step,
+    i === count - 1 ? endAngle : startAngle + (i + 1) * step,
+  ]);
+}
+
+/**
+ * Bounding box of the arc's centerline. Includes the two end points plus
+ * any of the four extreme points (top, right, bottom, left) the arc sweeps
+ * through; pad by half the stroke width to get the painted extent.
+ */
+export function getArcBounds(
+  cx: number,
+  cy: number,
+  radius: number,
+  arcSpan: number,
+  startAngle: number = getStartAngle(arcSpan),
+): { x: number; y: number; width: number; height: number } {
+  const points = [
+    polarToCartesian(cx, cy, radius, startAngle),
+    polarToCartesian(cx, cy, radius, startAngle + arcSpan),
+  ];
+  for (const extreme of [0, 90, 180, 270]) {
+    const offset = (((extreme - startAngle) % 360) + 360) % 360;
+    if (offset <= arcSpan) {
+      points.push(polarToCartesian(cx, cy, radius, extreme));
+    }
+  }
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return {
+    x,
+    y,
+    width: Math.max(...xs) - x,
+    height: Math.max(...ys) - y,
+  };
+}
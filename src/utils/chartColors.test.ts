@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { availableColors, getColorValue } from "./chartColors";
+
+describe("getColorValue", () => {
+  it("resolves Tremor tokens to their 500 shade", () => {
+    expect(getColorValue("blue")).toBe("#3b82f6");
+    expect(getColorValue("red")).toBe("#ef4444");
+    expect(getColorValue("slate")).toBe("#64748b");
+  });
+
+  it("passes other CSS colors through", () => {
+    expect(getColorValue("#0ea5e9")).toBe("#0ea5e9");
+    expect(getColorValue("rgb(14 165 233)")).toBe("rgb(14 165 233)");
+    expect(getColorValue("var(--brand)")).toBe("var(--brand)");
+  });
+
+  it("wraps bare custom property names in var()", () => {
+    expect(getColorValue("--brand")).toBe("var(--brand)");
+  });
+
+  it("does not treat object keys as tokens", () => {
+    expect(getColorValue("constructor")).toBe("constructor");
+  });
+});
+
+describe("availableColors", () => {
+  it("keeps the default nine-color cycle", () => {
+    expect(availableColors).toEqual([
+      "blue",
+      "emerald",
+      "violet",
+      "amber",
+      "gray",
+      "cyan",
+      "pink",
+      "lime",
+      "fuchsia",
+    ]);
+  });
+});
@@ -1,59 +1,58 @@
+/** The Tremor color list (500 shade) */
 export const colorValues = {
-  blue: "#3b82f6",
-  emerald: "#10b981",
-  violet: "#8b5cf6",
-  amber: "#f59e0b",
+  slate: "#64748b",
   gray: "#6b7280",
-  cyan: "#06b6d4",
-  pink: "#ec4899",
+  zinc: "#71717a",
+  neutral: "#737373",
+  stone: "#78716c",
+  red: "#ef4444",
+  orange: "#f97316",
+  amber: "#f59e0b",
+  yellow: "#eab308",
   lime: "#84cc16",
+  green: "#22c55e",
+  emerald: "#10b981",
+  teal: "#14b8a6",
+  cyan: "#06b6d4",
+  sky: "#0ea5e9",
+  blue: "#3b82f6",
+  indigo: "#6366f1",
+  violet: "#8b5cf6",
+  purple: "#a855f7",
   fuchsia: "#d946ef",
+  pink: "#ec4899",
+  rose: "#f43f5e",
 } as const;
 
-export type Color = keyof typeof colorValues;
-
-export const availableColors = Object.keys(colorValues) as Color[];
-
-/** Tailwind fill classes for each color token (500 shade) */
-export const colorFillClasses: Record<Color, string> = {
-  blue: "fill-blue-500",
-  emerald: "fill-emerald-500",
-  violet: "fill-violet-500",
-  amber: "fill-amber-500",
-  gray: "fill-gray-500",
-  cyan: "fill-cyan-500",
-  pink: "fill-pink-500",
-  lime: "fill-lime-500",
-  fuchsia: "fill-fuchsia-500",
-};
+export type ColorToken = keyof typeof colorValues;
 
-/** Tailwind stroke classes for each color token (500 shade) */
-export const colorStrokeClasses: Record<Color, string> = {
-  blue: "stroke-blue-500",
-  emerald: "stroke-emerald-500",
-  violet: "stroke-violet-500",
-  amber: "stroke-amber-500",
-  gray: "stroke-gray-500",
-  cyan: "stroke-cyan-500",
-  pink: "stroke-pink-500",
-  lime: "stroke-lime-500",
-  fuchsia: "stroke-fuchsia-500",
-};
+/**
+ * A Tremor color token, or any CSS color: hex, `rgb()`, `hsl()`,
+ * `var(--brand)`, or a bare custom property name like `--brand`.
+ */
+export type Color = ColorToken | (string & {});
 
-/** Tailwind background classes for legend squares */
-export const colorBgClasses: Record<Color, string> = {
-  blue: "bg-blue-500",
-  emerald: "bg-emerald-500",
-  violet: "bg-violet-500",
-  amber: "bg-amber-500",
-  gray: "bg-gray-500",
-  cyan: "bg-cyan-500",
-  pink: "bg-pink-500",
-  lime: "bg-lime-500",
-  fuchsia: "bg-fuchsia-500",
-};
+/** Default color cycle for multi-series gauges */
+export const availableColors: ColorToken[] = [
+  "blue",
+  "emerald",
+  "violet",
+  "amber",
+  "gray",
+  "cyan",
+  "pink",
+  "lime",
+  "fuchsia",
+];
 
-/** Hex value lookup for inline SVG styles where Tailwind classes can't reach */
+/**
+ * CSS color for inline SVG styles where Tailwind classes can't reach:
+ * tokens resolve to their hex value, `--name` becomes `var(--name)`, and
+ * anything else passes through as-is.
+ */
 export function getColorValue(color: Color): string {
-  return colorValues[color];
+  if (Object.prototype.hasOwnProperty.call(colorValues, color)) {
+    return colorValues[color as ColorToken];
+  }
+  return color.startsWith("--") ? `var(${color})` : color;
 }
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { createGaugeScale } from "./gaugeScale";
+
+describe("createGaugeScale", () => {
+  it("resolves the start angle from the arc span and orientation", () => {
+    expect(createGaugeScale().startAngle).toBe(270);
+    expect(createGaugeScale({ arcSpan: 240 }).startAngle).toBe(240);
+    expect(
+      createGaugeScale({ arcSpan: 180, orientation: "top" }).startAngle,
+    ).toBe(90);
+    expect(createGaugeScale({ startAngle: 45 }).startAngle).toBe(45);
+  });
+
+  it("maps values to angles and back", () => {
+    const scale = createGaugeScale({ min: 0, max: 100, arcSpan: 240 });
+    expect(scale.valueToAngle(0)).toBe(240);
+    expect(scale.valueToAngle(50)).toBe(360);
+    expect(scale.valueToAngle(100)).toBe(480);
+    expect(scale.angleToValue(0)).toBeCloseTo(50);
+    expect(scale.angleToValue(120)).toBeCloseTo(100);
+  });
+
+  it("places values on the track centerline", () => {
+    const scale = createGaugeScale();
+    const top = scale.valueToPoint(50);
+    expect(top.x).toBeCloseTo(100);
+    expect(top.y).toBeCloseTo(10);
+    const inner = scale.valueToPoint(100, 50);
+    expect(inner.x).toBeCloseTo(150);
+    expect(inner.y).toBeCloseTo(100);
+  });
+
+  it("uses a custom center and radius", () => {
+    const scale = createGaugeScale({ cx: 0, cy: 0, radius: 10 });
+    const start = scale.valueToPoint(0);
+    expect(start.x).toBeCloseTo(-10);
+    expect(start.y).toBeCloseTo(0);
+  });
+
+  it("follows the scale type", () => {
+    const scale = createGaugeScale({ min: 1, max: 1000, type: "log" });
+    expect(scale.valueToFraction(10)).toBeCloseTo(1 / 3);
+    expect(scale.fractionToValue(2 / 3)).toBeCloseTo(100);
+    expect(scale.ticks()).toEqual([1, 10, 100, 1000]);
+  });
+
+  it("returns nice ticks and a nice domain", () => {
+    const scale = createGaugeScale({ min: 13, max: 97 });
+    expect(scale.ticks(4)).toEqual([20, 40, 60, 80]);
+    expect(scale.niceDomain(4)).toEqual([0, 100]);
+    expect(
+      createGaugeScale({ min: 3, max: 450, type: "log" }).niceDomain(),
+    ).toEqual([1, 1000]);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Public gauge scale: the single mapping between values, angles and points
+ * that the gauges draw with. Use it to place custom overlays exactly where
+ * a gauge would draw a value.
+ */
+
+import {
+  type GaugeDirection,
+  type GaugeOrientation,
+  clampArcSpan,
+  getNeedleAngle,
+  getStartAngle,
+  getValueFromAngle,
+  polarToCartesian,
+} from "./arc";
+import { type GaugeScaleType, getValueScale } from "./scale";
+import { getLogTicks, getNiceDomain, getNiceTicks } from "./ticks";
+
+export interface GaugeScaleOptions {
+  /** Minimum value (default: 0) */
+  min?: number;
+  /** Maximum value (default: 100) */
+  max?: number;
+  /** Arc span in degrees, 1–360 (default: 180) */
+  arcSpan?: number;
+  /** Side the arc's opening faces (default: "bottom") */
+  orientation?: GaugeOrientation;
+  /** Angle of `min` in degrees clockwise from 12 o'clock; overrides `orientation` */
+  startAngle?: number;
+  /** Which way values run from `startAngle` (default: "clockwise") */
+  direction?: GaugeDirection;
+  /** Value scale (default: "linear") */
+  type?: GaugeScaleType;
+  /** Center x of the arc (default: 100, the gauges' viewBox center) */
+  cx?: number;
+  /** Center y of the arc (default: 100) */
+  cy?: number;
+  /** Radius used by `valueToPoint` (default: 90, the default track centerline) */
+  radius?: number;
+}
+
+export interface GaugeScale {
+  min: number;
+  max: number;
+  arcSpan: number;
+  /** Resolved angle of `min` (CSS degrees: 0° = 12 o'clock, clockwise) */
+  startAngle: number;
+  direction: GaugeDirection;
+  type: GaugeScaleType;
+  /** Position of a value along the arc (0..1), clamped to [min, max] */
+  valueToFraction: (value: number) => number;
+  /** Value at a position along the arc (0..1) */
+  fractionToValue: (fraction: number) => number;
+  /** CSS rotation angle of a value; not wrapped to [0, 360) */
+  valueToAngle: (value: number) => number;
+  /** Value at a CSS rotation angle; angles in the gap snap to the nearest end */
+  angleToValue: (angle: number) => number;
+  /** SVG point for a value at `radius` from the center */
+  valueToPoint: (value: number, radius?: number) => { x: number; y: number };
+  /** Nice tick values (powers of ten on a log scale) */
+  ticks: (count?: number) => number[];
+  /** [min, max] widened outward to nice tick values */
+  niceDomain: (count?: number) => [number, number];
+}
+
+/**
+ * Create the value ↔ angle ↔ point mapping for a gauge arc.
+ *
+ * @example
+ * const scale = createGaugeScale({ min: 0, max: 100, arcSpan: 240 });
+ * scale.valueToAngle(50); // 0 — straight up
+ * scale.valueToPoint(75); // { x, y } on the track centerline
+ */
+export function createGaugeScale({
+  min = 0,
+  max = 100,
+  arcSpan: arcSpanOption = 180,
+  orientation = "bottom",
+  startAngle,
+  direction = "clockwise",
+  type = "linear",
+  cx = 100,
+  cy = 100,
+  radius: defaultRadius = 90,
+}: GaugeScaleOptions = {}): GaugeScale {
+  const arcSpan = clampArcSpan(arcSpanOption);
+  const start = startAngle ?? getStartAngle(arcSpan, orientation, direction);
+  const valueScale = getValueScale(type, min, max);
+  const isLog = type === "log" && min > 0;
+
+  const valueToAngle = (value: number) =>
+    getNeedleAngle(value, min, max, arcSpan, start, type, direction);
+
+  return {
+    min,
+    max,
+    arcSpan,
+    startAngle: start,
+    direction,
+    type,
+    valueToFraction: valueScale.toFraction,
+    fractionToValue: valueScale.fromFraction,
+    valueToAngle,
+    angleToValue: (angle) =>
+      getValueFromAngle(angle, min, max, arcSpan, start, type, direction),
+    valueToPoint: (value, radius = defaultRadius) =>
+      polarToCartesian(cx, cy, radius, valueToAngle(value)),
+    ticks: (count = 5) =>
+      max <= min
+        ? []
+        : isLog
+          ? getLogTicks(min, max, count)
+          : getNiceTicks(min, max, count),
+    niceDomain: (count = 5) =>
+      isLog
+        ? [
+            Math.pow(10, Math.floor(Math.log10(min) + 1e-9)),
+            Math.pow(10, Math.ceil(Math.log10(max) - 1e-9)),
+          ]
+        : getNiceDomain(min, max, count),
+  };
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import {
+  getGradientColorAt,
+  getGradientStops,
+  interpolateColor,
+} from "./gradient";
+
+describe("interpolateColor", () => {
+  it("mixes hex colors in RGB space", () => {
+    expect(interpolateColor("#000000", "#ffffff", 0.5)).toBe("#808080");
+    expect(interpolateColor("#10b981", "#ec4899", 0)).toBe("#10b981");
+    expect(interpolateColor("#10b981", "#ec4899", 1)).toBe("#ec4899");
+  });
+
+  it("expands shorthand hex", () => {
+    expect(interpolateColor("#f00", "#00f", 0.5)).toBe("#800080");
+  });
+
+  it("falls back to color-mix for other CSS colors", () => {
+    expect(interpolateColor("var(--ok)", "hsl(0 80% 50%)", 0.25)).toBe(
+      "color-mix(in srgb, var(--ok), hsl(0 80% 50%) 25%)",
+    );
+    expect(interpolateColor("var(--ok)", "red", 0)).toBe("var(--ok)");
+    expect(interpolateColor("var(--ok)", "red", 1)).toBe("red");
+  });
+});
+
+describe("getGradientStops", () => {
+  const toFraction = (v: number) => v / 100;
+
+  it("resolves from/to to the arc ends", () => {
+    expect(
+      getGradientStops({ from: "emerald", to: "pink" }, undefined, toFraction),
+    ).toEqual([
+      { offset: 0, color: "#10b981" },
+      { offset: 1, color: "#ec4899" },
+    ]);
+  });
+
+  it("sorts and clamps explicit stops", () => {
+    const stops = getGradientStops(
+      {
+        stops: [
+          { offset: 1.5, color: "pink" },
+          { offset: 0.5, color: "amber" },
+        ],
+      },
+      undefined,
+      toFraction,
+    );
+    expect(stops).toEqual([
+      { offset: 0.5, color: "#f59e0b" },
+      { offset: 1, color: "#ec4899" },
+    ]);
+  });
+
+  it("places a stop at each threshold", () => {
+    const stops = getGradientStops(
+      "thresholds",
+      [
+        { value: 80, color: "pink" },
+        { value: 0, color: "emerald" },
+      ],
+      toFraction,
+    );
+    expect(stops.map((s) => s.offset)).toEqual([0, 0.8]);
+    expect(getGradientStops("thresholds", undefined, toFraction)).toEqual([]);
+  });
+});
+
+describe("getGradientColorAt", () => {
+  const stops = [
+    { offset: 0.25, color: "#000000" },
+    { offset: 0.75, color: "#ffffff" },
+  ];
+
+  it("interpolates between the surrounding stops", () => {
+    expect(getGradientColorAt(stops, 0.5)).toBe("#808080");
+  });
+
+  it("holds the end colors outside the stops", () => {
+    expect(getGradientColorAt(stops, 0)).toBe("#000000");
+    expect(getGradientColorAt(stops, 1)).toBe("#ffffff");
+  });
+});
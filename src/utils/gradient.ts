@@ -0,0 +1,126 @@
+/**
+ * Gradients that follow the gauge: stops are placed by position along the
+ * arc (or bar), and colors between them are interpolated, so the fill can
+ * shift smoothly from one zone color to the next as it sweeps.
+ */
+
+import { type Color, getColorValue } from "./chartColors";
+import type { GaugeThreshold } from "./thresholds";
+
+export interface GaugeGradientStop {
+  /** Position along the arc, 0 (start) to 1 (end) */
+  offset: number;
+  color: Color;
+}
+
+/**
+ * - `{ from, to }` — two colors from the start of the arc to the end
+ * - `{ stops }` — any number of colors at positions along the arc
+ * - `"thresholds"` — one stop at each threshold's value, in its color
+ */
+export type GaugeGradient =
+  { from: Color; to: Color } | { stops: GaugeGradientStop[] } | "thresholds";
+
+/** A resolved stop with a CSS color, sorted by offset */
+export interface GradientStop {
+  offset: number;
+  color: string;
+}
+
+/**
+ * Resolve a gradient option to sorted stops. `toFraction` places threshold
+ * values along the arc. Returns an empty list when there is nothing to
+ * draw (e.g. `"thresholds"` without thresholds).
+ */
+export function getGradientStops(
+  gradient: GaugeGradient,
+  thresholds: GaugeThreshold[] | undefined,
+  toFraction: (value: number) => number,
+): GradientStop[] {
+  const clamp01 = (f: number) => Math.max(0, Math.min(1, f));
+  const stops =
+    gradient === "thresholds"
+      ? (thresholds ?? []).map((t) => ({
+          offset: toFraction(t.value),
+          color: t.color,
+        }))
+      : "stops" in gradient
+        ? gradient.stops
+        : [
+            { offset: 0, color: gradient.from },
+            { offset: 1, color: gradient.to },
+          ];
+  return stops
+    .map((s) => ({ offset: clamp01(s.offset), color: getColorValue(s.color) }))
+    .sort((a, b) => a.offset - b.offset);
+}
+
+/** Parse `#rgb` or `#rrggbb` into channels, or null for other formats */
+function parseHex(color: string): [number, number, number] | null {
+  const m = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color);
+  if (!m) return null;
+  const hex =
+    m[1].length === 3
+      ? m[1]
+          .split("")
+          .map((c) => c + c)
+          .join("")
+      : m[1];
+  return [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as [
+    number,
+    number,
+    number,
+  ];
+}
+
+/**
+ * Mix two colors, `t` = 0 giving `a` and 1 giving `b`. Hex colors are mixed
+ * in RGB space here; other CSS colors (`rgb()`, `hsl()`, `var()`) fall back
+ * to a `color-mix()` for the browser to resolve.
+ */
+export function interpolateColor(a: string, b: string, t: number): string {
+  const k = Math.max(0, Math.min(1, t));
+  const from = parseHex(a);
+  const to = parseHex(b);
+  if (!from || !to) {
+    if (k === 0 || a === b) return a;
+    if (k === 1) return b;
+    const pct = Math.round(k * 1000) / 10;
+    return `color-mix(in srgb, ${a}, ${b} ${pct}%)`;
+  }
+  return (
+    "#" +
+    from
+      .map((c, i) =>
+        Math.round(c + (to[i] - c) * k)
+          .toString(16)
+          .padStart(2, "0"),
+      )
+      .join("")
+  );
+}
+
+/**
+ * Color at `offset` along stops sorted by offset. Before the first stop and
+ * after the last, the end colors hold.
+ */
+export function getGradientColorAt(
+  stops: GradientStop[],
+  offset: number,
+): string {
+  if (stops.length === 0) return "";
+  if (offset <= stops[0].offset) return stops[0].color;
+  for (let i = 0; i < stops.length - 1; i++) {
+    const a = stops[i];
+    const b = stops[i + 1];
+    if (offset <= b.offset) {
+      const width = b.offset - a.offset;
+      return interpolateColor(
+        a.color,
+        b.color,
+        width === 0 ? 1 : (offset - a.offset) / width,
+      );
+    }
+  }
+  return stops[stops.length - 1].color;
+}
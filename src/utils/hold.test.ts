@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import {
+  type HoldConfig,
+  type HoldState,
+  createHoldState,
+  expireHold,
+  getHoldConfig,
+  getHoldTrail,
+  getNextHoldExpiry,
+  pushHoldSample,
+} from "./hold";
+
+/** Push `[time, value]` readings onto a hold that starts at 50 */
+function feed(config: HoldConfig, readings: [number, number][]) {
+  return readings.reduce<HoldState>(
+    (state, [time, value]) => pushHoldSample(state, value, time, config),
+    createHoldState(50, 0),
+  );
+}
+
+describe("getHoldConfig", () => {
+  it("is off unless set", () => {
+    expect(getHoldConfig(undefined)).toBeNull();
+    expect(getHoldConfig(false)).toBeNull();
+  });
+
+  it("holds both extremes since mount by default", () => {
+    expect(getHoldConfig(true)).toEqual({
+      max: true,
+      min: true,
+      window: undefined,
+      decay: undefined,
+      trail: 0,
+    });
+  });
+
+  it("gives a true trail one second", () => {
+    expect(getHoldConfig({ trail: true })?.trail).toBe(1000);
+    expect(getHoldConfig({ trail: 400 })?.trail).toBe(400);
+  });
+});
+
+describe("pushHoldSample", () => {
+  const config = { trail: 0 };
+
+  it("holds the highest and lowest values seen", () => {
+    const state = feed(config, [
+      [100, 80],
+      [200, 30],
+      [300, 60],
+    ]);
+    expect(state.max.value).toBe(80);
+    expect(state.min.value).toBe(30);
+    expect(getNextHoldExpiry(state, config)).toBeNull();
+  });
+
+  it("keeps only the live sample without a window or trail", () => {
+    const state = feed(config, [
+      [100, 80],
+      [200, 30],
+    ]);
+    expect(state.samples).toEqual([{ value: 30, time: 200 }]);
+  });
+});
+
+describe("expireHold", () => {
+  it("releases a decayed value to the live one", () => {
+    const config = { decay: 1000, trail: 0 };
+    const state = feed(config, [
+      [100, 90],
+      [200, 60],
+    ]);
+    // The initial 50 was last live at 100 and 90 at 200
+    expect(getNextHoldExpiry(state, config)).toBe(1100);
+    const next = expireHold(state, 1100, config);
+    expect(next.min.value).toBe(60);
+    expect(next.max.value).toBe(90);
+    expect(getNextHoldExpiry(next, config)).toBe(1200);
+    expect(expireHold(next, 1200, config).max.value).toBe(60);
+  });
+
+  it("lets the live value hold without expiring", () => {
+    const config = { decay: 1000, trail: 0 };
+    const state = feed(config, [[100, 90]]);
+    expect(state.max.value).toBe(90);
+    // The initial 50 has been released, the live 90 never is
+    expect(getNextHoldExpiry(state, config)).toBe(1100);
+    const released = expireHold(state, 1100, config);
+    expect(released.min.value).toBe(90);
+    expect(getNextHoldExpiry(released, config)).toBeNull();
+  });
+
+  it("falls back to the extremes still in a rolling window", () => {
+    const config = { window: 1000, trail: 0 };
+    const state = feed(config, [
+      [100, 95],
+      [200, 70],
+      [600, 40],
+    ]);
+    expect(state.max.value).toBe(95);
+    expect(getNextHoldExpiry(state, config)).toBe(1201);
+    // 95 left the window; 70 was live until 600
+    const next = expireHold(state, 1201, config);
+    expect(next.max).toEqual({ value: 70, time: 600 });
+    expect(getNextHoldExpiry(next, config)).toBe(1601);
+    expect(expireHold(next, 1601, config).max.value).toBe(40);
+  });
+});
+
+describe("getHoldTrail", () => {
+  it("fades earlier values from when they were left", () => {
+    const config = { trail: 1000 };
+    const state = expireHold(
+      feed(config, [
+        [0, 20],
+        [500, 40],
+      ]),
+      750,
+      config,
+    );
+    // 50 was left at 0 and 20 at 500; the live 40 isn't a ghost
+    expect(getHoldTrail(state, config)).toEqual([
+      { value: 50, opacity: 0.25 },
+      { value: 20, opacity: 0.75 },
+    ]);
+    expect(getHoldTrail(expireHold(state, 1600, config), config)).toEqual([]);
+  });
+
+  it("is empty without a trail", () => {
+    expect(getHoldTrail(feed({ trail: 0 }, [[10, 20]]), { trail: 0 })).toEqual(
+      [],
+    );
+  });
+});
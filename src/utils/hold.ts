@@ -0,0 +1,193 @@
+/** Peak/low hold for live gauges (see `UseGaugeOptions.hold`) */
+export interface GaugeHold {
+  /** Hold the highest value (default: true) */
+  max?: boolean;
+  /** Hold the lowest value (default: true) */
+  min?: boolean;
+  /**
+   * Only hold values from the last `window` ms, so an old spike drops off
+   * once it's out of range (default: everything since mount or reset)
+   */
+  window?: number;
+  /**
+   * Release a held value `decay` ms after it was reached and fall back to
+   * the live value, like a VU meter's peak light (default: never)
+   */
+  decay?: number;
+  /**
+   * Fading ghost needles at recent values: `true` for the last second, or
+   * how long each one lingers in ms (default: false)
+   */
+  trail?: boolean | number;
+}
+
+/** Imperative handle for `holdRef` */
+export interface GaugeHoldHandle {
+  /** Clear held values and the trail, holding from the live value again */
+  reset: () => void;
+}
+
+export interface HoldSample {
+  value: number;
+  /** Timestamp in ms */
+  time: number;
+}
+
+export interface HoldState {
+  /** Recent samples, oldest first; the last one is the live value */
+  samples: HoldSample[];
+  max: HoldSample;
+  min: HoldSample;
+  /** Time of the last update, for fading the trail */
+  now: number;
+}
+
+export interface HoldConfig {
+  window?: number;
+  decay?: number;
+  /** Trail duration in ms (0: no trail) */
+  trail: number;
+}
+
+/** Resolve the `hold` option, or null when holding is off */
+export function getHoldConfig(
+  hold: boolean | GaugeHold | undefined,
+): (HoldConfig & { max: boolean; min: boolean }) | null {
+  if (!hold) return null;
+  const {
+    max = true,
+    min = true,
+    window,
+    decay,
+    trail = false,
+  } = hold === true ? {} : hold;
+  return {
+    max,
+    min,
+    window: window !== undefined && window > 0 ? window : undefined,
+    decay: decay !== undefined && decay > 0 ? decay : undefined,
+    trail: trail === true ? 1000 : trail === false ? 0 : Math.max(0, trail),
+  };
+}
+
+/** Hold state that starts (or restarts) from a single value */
+export function createHoldState(value: number, now: number): HoldState {
+  const sample = { value, time: now };
+  return { samples: [sample], max: sample, min: sample, now };
+}
+
+/** When a sample stopped being the live value (now, for the live one) */
+function endOf(samples: HoldSample[], i: number, now: number) {
+  return i < samples.length - 1 ? samples[i + 1].time : now;
+}
+
+/** Keep the samples a window or the trail can still reach, and the live one */
+function prune(samples: HoldSample[], now: number, config: HoldConfig) {
+  const keep = Math.max(config.window ?? 0, config.trail);
+  return samples.filter(
+    (_, i) =>
+      i === samples.length - 1 ||
+      (keep > 0 && now - endOf(samples, i, now) <= keep),
+  );
+}
+
+/**
+ * Record a new live value; it becomes the held value when it reaches one.
+ * A held value that isn't live carries the time it was last live, which
+ * its decay and window count from.
+ */
+export function pushHoldSample(
+  state: HoldState,
+  value: number,
+  now: number,
+  config: HoldConfig,
+): HoldState {
+  const sample = { value, time: now };
+  const live = state.samples[state.samples.length - 1];
+  const left = (held: HoldSample) =>
+    held === live ? { value: held.value, time: now } : held;
+  return {
+    samples: prune([...state.samples, sample], now, config),
+    max: value >= state.max.value ? sample : left(state.max),
+    min: value <= state.min.value ? sample : left(state.min),
+    now,
+  };
+}
+
+/** Release held values that have decayed or left the window */
+export function expireHold(
+  state: HoldState,
+  now: number,
+  config: HoldConfig,
+): HoldState {
+  const samples = prune(state.samples, now, config);
+  const live = samples[samples.length - 1];
+  const update = (
+    held: HoldSample,
+    pick: (a: number, b: number) => boolean,
+  ): HoldSample => {
+    if (held === live) return held;
+    if (config.decay !== undefined && now - held.time >= config.decay) {
+      return live;
+    }
+    if (config.window !== undefined && now - held.time > config.window) {
+      // Extreme of what's still in the window; the latest of equal values,
+      // so it stays held longest
+      let best: HoldSample | null = null;
+      for (let i = 0; i < samples.length; i++) {
+        const end = endOf(samples, i, now);
+        if (now - end > config.window) continue;
+        if (best === null || pick(samples[i].value, best.value)) {
+          best =
+            i === samples.length - 1
+              ? live
+              : { value: samples[i].value, time: end };
+        }
+      }
+      return best ?? live;
+    }
+    return held;
+  };
+  return {
+    samples,
+    max: update(state.max, (a, b) => a >= b),
+    min: update(state.min, (a, b) => a <= b),
+    now,
+  };
+}
+
+/** When held values next change on their own, or null if they never do */
+export function getNextHoldExpiry(
+  state: HoldState,
+  config: HoldConfig,
+): number | null {
+  const live = state.samples[state.samples.length - 1];
+  const times = [state.max, state.min].flatMap((held) =>
+    // The live value is held until it changes
+    held === live
+      ? []
+      : [
+          ...(config.decay !== undefined ? [held.time + config.decay] : []),
+          ...(config.window !== undefined
+            ? [held.time + config.window + 1]
+            : []),
+        ],
+  );
+  return times.length > 0 ? Math.min(...times) : null;
+}
+
+/** Earlier values still visible in the trail, oldest first, with their opacity */
+export function getHoldTrail(
+  state: HoldState,
+  config: HoldConfig,
+): { value: number; opacity: number }[] {
+  if (config.trail <= 0) return [];
+  const { samples } = state;
+  return samples.slice(0, -1).flatMap((s, i) => {
+    // Ghosts fade from when the needle moved on
+    const age = state.now - endOf(samples, i, state.now);
+    return age < config.trail
+      ? [{ value: s.value, opacity: 1 - age / config.trail }]
+      : [];
+  });
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import {
+  boxesOverlap,
+  getRadialAnchor,
+  getTextBox,
+  placeRadialLabel,
+  unionBoxes,
+} from "./labels";
+
+describe("getTextBox", () => {
+  it("positions the box according to the text anchor", () => {
+    const start = getTextBox(50, 50, "abcd", 10, "start");
+    const middle = getTextBox(50, 50, "abcd", 10, "middle");
+    const end = getTextBox(50, 50, "abcd", 10, "end");
+    expect(start.x).toBe(50);
+    expect(middle.x).toBeCloseTo(50 - middle.width / 2);
+    expect(end.x).toBeCloseTo(50 - end.width);
+    expect(start.y).toBe(45);
+    expect(start.height).toBe(10);
+  });
+});
+
+describe("boxesOverlap", () => {
+  it("detects intersecting and separate boxes", () => {
+    const a = { x: 0, y: 0, width: 10, height: 10 };
+    expect(boxesOverlap(a, { x: 5, y: 5, width: 10, height: 10 })).toBe(true);
+    expect(boxesOverlap(a, { x: 11, y: 0, width: 10, height: 10 })).toBe(
+      false,
+    );
+  });
+});
+
+describe("unionBoxes", () => {
+  it("returns the smallest enclosing box", () => {
+    const box = unionBoxes([
+      { x: 0, y: 0, width: 10, height: 10 },
+      { x: -5, y: 20, width: 10, height: 5 },
+    ]);
+    expect(box).toEqual({ x: -5, y: 0, width: 15, height: 25 });
+  });
+});
+
+describe("getRadialAnchor", () => {
+  it("anchors text away from the circle", () => {
+    expect(getRadialAnchor(0)).toBe("middle");
+    expect(getRadialAnchor(90)).toBe("start");
+    expect(getRadialAnchor(270)).toBe("end");
+  });
+
+  it("anchors inward labels toward the center", () => {
+    expect(getRadialAnchor(90, true)).toBe("end");
+    expect(getRadialAnchor(270, true)).toBe("start");
+  });
+});
+
+describe("placeRadialLabel", () => {
+  it("places the label at the requested radius when nothing is in the way", () => {
+    const placed = placeRadialLabel({
+      cx: 100,
+      cy: 100,
+      radius: 50,
+      angleDeg: 90,
+      text: "Target",
+      fontSize: 10,
+    });
+    expect(placed.x).toBeCloseTo(150);
+    expect(placed.y).toBeCloseTo(100);
+    expect(placed.anchor).toBe("start");
+  });
+
+  it("steps outward until it clears the avoid boxes", () => {
+    const avoid = [{ x: 140, y: 90, width: 30, height: 20 }];
+    const placed = placeRadialLabel({
+      cx: 100,
+      cy: 100,
+      radius: 50,
+      angleDeg: 90,
+      text: "Target",
+      fontSize: 10,
+      avoid,
+    });
+    expect(boxesOverlap(placed.box, avoid[0])).toBe(false);
+    expect(placed.x).toBeGreaterThan(150);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Text layout helpers for labels drawn around the gauge arc.
+ *
+ * SVG text can't be measured before it is rendered (and not at all in
+ * SSR), so widths are estimated from the character count. The estimate is
+ * deliberately generous so collision checks err on the side of spacing.
+ */
+
+import { polarToCartesian } from "./arc";
+
+export interface LabelBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type TextAnchor = "start" | "middle" | "end";
+
+/** Approximate rendered width of `text` at `fontSize` (px) */
+export function estimateTextWidth(text: string, fontSize: number): number {
+  return text.length * fontSize * 0.6;
+}
+
+/**
+ * Bounding box of a `dominantBaseline="central"` text element positioned
+ * at (x, y) with the given anchor.
+ */
+export function getTextBox(
+  x: number,
+  y: number,
+  text: string,
+  fontSize: number,
+  anchor: TextAnchor,
+): LabelBox {
+  const width = estimateTextWidth(text, fontSize);
+  const left =
+    anchor === "start" ? x : anchor === "end" ? x - width : x - width / 2;
+  return { x: left, y: y - fontSize / 2, width, height: fontSize };
+}
+
+/** True when two boxes intersect */
+export function boxesOverlap(a: LabelBox, b: LabelBox): boolean {
+  return (
+    a.x < b.x + b.width &&
+    b.x < a.x + a.width &&
+    a.y < b.y + b.height &&
+    b.y < a.y + a.height
+  );
+}
+
+/** Grow a box by `amount` on every side */
+export function padBox(box: LabelBox, amount: number): LabelBox {
+  return {
+    x: box.x - amount,
+    y: box.y - amount,
+    width: box.width + amount * 2,
+    height: box.height + amount * 2,
+  };
+}
+
+/** Smallest box containing all of `boxes` */
+export function unionBoxes(boxes: LabelBox[]): LabelBox {
+  const x0 = Math.min(...boxes.map((b) => b.x));
+  const y0 = Math.min(...boxes.map((b) => b.y));
+  const x1 = Math.max(...boxes.map((b) => b.x + b.width));
+  const y1 = Math.max(...boxes.map((b) => b.y + b.height));
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
+
+/**
+ * Text anchor for a label sitting radially outside the arc at `angleDeg`
+ * (CSS rotation: 0° = up), so text grows away from the circle. Labels
+ * inside the arc (`inward`) grow toward the center instead.
+ */
+export function getRadialAnchor(
+  angleDeg: number,
+  inward = false,
+): TextAnchor {
+  const dx = Math.sin((angleDeg * Math.PI) / 180) * (inward ? -1 : 1);
+  if (dx > 0.3) return "start";
+  if (dx < -0.3) return "end";
+  return "middle";
+}
+
+/**
+ * Place a label radially outside the arc at `angleDeg`, starting at
+ * `radius` and stepping outward until it clears every box in `avoid`.
+ * With `inward`, the label sits inside `radius` and steps toward the center.
+ */
+export function placeRadialLabel({
+  cx,
+  cy,
+  radius,
+  angleDeg,
+  text,
+  fontSize,
+  avoid = [],
+  inward = false,
+}: {
+  cx: number;
+  cy: number;
+  radius: number;
+  angleDeg: number;
+  text: string;
+  fontSize: number;
+  avoid?: LabelBox[];
+  inward?: boolean;
+}): { x: number; y: number; anchor: TextAnchor; box: LabelBox } {
+  const anchor = getRadialAnchor(angleDeg, inward);
+  const direction = inward ? -1 : 1;
+  // Labels directly above/below the center need half their height as room
+  const dy = Math.abs(Math.cos((angleDeg * Math.PI) / 180));
+  let r =
+    radius + direction * (anchor === "middle" ? (fontSize / 2) * dy : 0);
+  for (let attempt = 0; ; attempt++) {
+    const { x, y } = polarToCartesian(cx, cy, r, angleDeg);
+    const box = getTextBox(x, y, text, fontSize, anchor);
+    if (attempt >= 8 || !avoid.some((b) => boxesOverlap(box, b))) {
+      return { x, y, anchor, box };
+    }
+    r += direction * (fontSize / 2);
+  }
+}
@@ -0,0 +1,61 @@
+import type React from "react";
+import type { Color } from "./chartColors";
+import type { GaugeScale } from "./gaugeScale";
+import type { LabelBox } from "./labels";
+
+/**
+ * Where a custom layer is drawn relative to the built-in elements:
+ * - `"beforeTrack"` — underneath everything
+ * - `"afterTrack"` — above the track and threshold zones, below the fill
+ * - `"afterFill"` — above the fill, below markers and the needle
+ * - `"foreground"` — on top of everything, including labels
+ */
+export type GaugeLayerPosition =
+  | "beforeTrack"
+  | "afterTrack"
+  | "afterFill"
+  | "foreground";
+
+/** Geometry and colors handed to custom layers, in SVG user units */
+export interface GaugeLayerContext {
+  /** Arc center */
+  cx: number;
+  cy: number;
+  /** Radius of the track centerline */
+  radius: number;
+  /** Track stroke width; the track spans `radius ± strokeWidth / 2` */
+  strokeWidth: number;
+  /** Value ↔ angle ↔ point mapping for this gauge */
+  scale: GaugeScale;
+  /** Current value (the total for `GaugeMulti`) */
+  value: number;
+  /** Resolved fill color as CSS (with a gradient, its color at the value) */
+  fillColor: string;
+  /** CSS value of a color token or custom color */
+  getColor: (color: Color) => string;
+  /** The SVG viewBox; content outside it is clipped */
+  viewBox: LabelBox;
+}
+
+export interface GaugeLayer {
+  /** Stacking position (default: "foreground") */
+  position?: GaugeLayerPosition;
+  /** Render SVG elements for this layer */
+  render: (context: GaugeLayerContext) => React.ReactNode;
+}
+
+/**
+ * Collect the layers drawn at `position`; `renderLayer` is shorthand for a
+ * single foreground layer.
+ */
+export function getLayersAt(
+  position: GaugeLayerPosition,
+  layers: GaugeLayer[] | undefined,
+  renderLayer: GaugeLayer["render"] | undefined,
+): GaugeLayer["render"][] {
+  const renders = (layers ?? [])
+    .filter((layer) => (layer.position ?? "foreground") === position)
+    .map((layer) => layer.render);
+  if (renderLayer && position === "foreground") renders.push(renderLayer);
+  return renders;
+}
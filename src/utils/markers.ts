@@ -0,0 +1,124 @@
+import type { Color } from "./chartColors";
+import { polarToCartesian } from "./arc";
+import {
+  type LabelBox,
+  type TextAnchor,
+  padBox,
+  placeRadialLabel,
+} from "./labels";
+
+/** A reference value (target, budget, SLA…) drawn on the gauge arc */
+export interface GaugeMarker {
+  /** Value the marker points at */
+  value: number;
+  /** Text shown outside the track next to the marker */
+  label?: string;
+  /** Color for the marker and its label (default: neutral gray) */
+  color?: Color;
+  /**
+   * Marker shape:
+   * - `"tick"` — a line across the track (default)
+   * - `"triangle"` — a small arrowhead outside the track pointing inward
+   */
+  style?: "tick" | "triangle";
+}
+
+/** Distance the marker reaches past the outer edge of the track */
+export function getMarkerOuterExtent(style: GaugeMarker["style"]): number {
+  return style === "triangle" ? 8 : 2;
+}
+
+/**
+ * Marker shape at the 12 o'clock position; rotate it around (cx, cy) by the
+ * marker's needle angle to place it on the arc.
+ */
+export function getMarkerShape(
+  cx: number,
+  cy: number,
+  radius: number,
+  strokeWidth: number,
+  style: GaugeMarker["style"],
+):
+  | { type: "line"; x1: number; y1: number; x2: number; y2: number }
+  | { type: "path"; d: string } {
+  const outer = radius + strokeWidth / 2;
+  if (style === "triangle") {
+    const tip = cy - outer - 1;
+    const base = cy - outer - getMarkerOuterExtent("triangle");
+    return {
+      type: "path",
+      d: `M ${cx} ${tip} L ${cx - 4} ${base} L ${cx + 4} ${base} Z`,
+    };
+  }
+  return {
+    type: "line",
+    x1: cx,
+    y1: cy - radius + strokeWidth / 2 + 2,
+    x2: cx,
+    y2: cy - outer - getMarkerOuterExtent("tick"),
+  };
+}
+
+export interface MarkerLayout {
+  marker: GaugeMarker;
+  /** Needle-style rotation angle of the marker (0° = up) */
+  angle: number;
+  /** Outermost point of the marker shape */
+  tip: { x: number; y: number };
+  /** Label position, or null when the marker has no label */
+  label: { x: number; y: number; anchor: TextAnchor; box: LabelBox } | null;
+}
+
+/**
+ * Compute angles and label positions for a set of markers. Labels are
+ * placed radially outside the marker and pushed outward when they would
+ * overlap a box in `avoid` or a previously placed marker label.
+ */
+export function layoutMarkers({
+  markers,
+  cx,
+  cy,
+  radius,
+  strokeWidth,
+  fontSize,
+  getAngle,
+  avoid = [],
+}: {
+  markers: GaugeMarker[];
+  cx: number;
+  cy: number;
+  radius: number;
+  strokeWidth: number;
+  fontSize: number;
+  getAngle: (value: number) => number;
+  avoid?: LabelBox[];
+}): MarkerLayout[] {
+  const placedBoxes = [...avoid];
+  return markers.map((marker) => {
+    const angle = getAngle(marker.value);
+    const outer =
+      radius + strokeWidth / 2 + getMarkerOuterExtent(marker.style);
+    const tip = polarToCartesian(cx, cy, outer, angle);
+    const label = marker.label
+      ? placeRadialLabel({
+          cx,
+          cy,
+          radius: outer + 4,
+          angleDeg: angle,
+          text: marker.label,
+          fontSize,
+          avoid: placedBoxes,
+        })
+      : null;
+    if (label) placedBoxes.push(label.box);
+    return { marker, angle, tip, label };
+  });
+}
+
+/** Boxes covering marker tips and labels, for viewBox sizing */
+export function getMarkerBounds(layout: MarkerLayout[]): LabelBox[] {
+  return layout.flatMap((m) => [
+    { x: m.tip.x - 4, y: m.tip.y - 4, width: 8, height: 8 },
+    ...(m.label ? [padBox(m.label.box, 2)] : []),
+  ]);
+}
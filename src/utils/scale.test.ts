@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { getValueScale, isLinearScale } from "./scale";
+
+describe("getValueScale", () => {
+  it("maps linearly by default", () => {
+    const scale = getValueScale("linear", 0, 200);
+    expect(scale.toFraction(50)).toBeCloseTo(0.25);
+    expect(scale.fromFraction(0.25)).toBeCloseTo(50);
+  });
+
+  it("clamps values and fractions to the range", () => {
+    const scale = getValueScale("linear", 0, 100);
+    expect(scale.toFraction(150)).toBe(1);
+    expect(scale.toFraction(-10)).toBe(0);
+    expect(scale.fromFraction(2)).toBe(100);
+  });
+
+  it("spaces decades evenly on a log scale", () => {
+    const scale = getValueScale("log", 1, 10000);
+    expect(scale.toFraction(10)).toBeCloseTo(0.25);
+    expect(scale.toFraction(100)).toBeCloseTo(0.5);
+    expect(scale.fromFraction(0.75)).toBeCloseTo(1000);
+  });
+
+  it("falls back to linear for a log scale with min <= 0", () => {
+    const scale = getValueScale("log", 0, 100);
+    expect(scale.toFraction(50)).toBeCloseTo(0.5);
+  });
+
+  it("interpolates piecewise-linear breakpoints both ways", () => {
+    const scale = getValueScale(
+      { domain: [0, 100, 1000], range: [0, 0.75, 1] },
+      0,
+      1000,
+    );
+    expect(scale.toFraction(50)).toBeCloseTo(0.375);
+    expect(scale.toFraction(550)).toBeCloseTo(0.875);
+    expect(scale.fromFraction(0.875)).toBeCloseTo(550);
+  });
+
+  it("maps everything to the start for an empty range", () => {
+    const scale = getValueScale("log", 5, 5);
+    expect(scale.toFraction(5)).toBe(0);
+    expect(scale.fromFraction(0.5)).toBe(5);
+  });
+});
+
+describe("isLinearScale", () => {
+  it("reports whether values end up evenly spaced", () => {
+    expect(isLinearScale("linear", 0)).toBe(true);
+    expect(isLinearScale("log", 1)).toBe(false);
+    expect(isLinearScale("log", 0)).toBe(true);
+    expect(isLinearScale({ domain: [0, 1], range: [0, 1] }, 0)).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Value scales: how a value in [min, max] maps to a position (0..1) along
+ * the arc. Every fraction in the gauges — fill, needle, threshold bands,
+ * ticks and markers — goes through one of these.
+ */
+
+/**
+ * - `"linear"` — even spacing (default)
+ * - `"log"` — logarithmic, for ranges spanning orders of magnitude (1ms–10s);
+ *   requires `min > 0`, otherwise falls back to linear
+ * - `{ domain, range }` — piecewise-linear: each `domain` value sits at the
+ *   matching `range` fraction (0..1) of the arc, e.g.
+ *   `{ domain: [0, 50, 100], range: [0, 0.8, 1] }` gives the first half of
+ *   the values 80% of the arc
+ */
+export type GaugeScaleType =
+  | "linear"
+  | "log"
+  | { domain: number[]; range: number[] };
+
+export interface ValueScale {
+  /** Position of `value` along the arc (0..1); clamps to [min, max] */
+  toFraction: (value: number) => number;
+  /** Inverse of `toFraction`: the value at a position along the arc */
+  fromFraction: (fraction: number) => number;
+}
+
+const clamp01 = (f: number) => Math.max(0, Math.min(1, f));
+
+/** Linear interpolation of `x` through sorted breakpoints `xs` → `ys` */
+function interpolate(x: number, xs: number[], ys: number[]): number {
+  if (x <= xs[0]) return ys[0];
+  for (let i = 0; i < xs.length - 1; i++) {
+    if (x <= xs[i + 1]) {
+      const width = xs[i + 1] - xs[i];
+      const t = width === 0 ? 1 : (x - xs[i]) / width;
+      return ys[i] + t * (ys[i + 1] - ys[i]);
+    }
+  }
+  return ys[ys.length - 1];
+}
+
+/** True when a scale resolves to even spacing (including log fallbacks) */
+export function isLinearScale(type: GaugeScaleType, min: number): boolean {
+  if (type === "log") return min <= 0;
+  if (typeof type === "object")
+    return Math.min(type.domain.length, type.range.length) < 2;
+  return true;
+}
+
+/**
+ * Build the value ↔ fraction mapping for a scale type over [min, max].
+ * Degenerate ranges (`max <= min`) map everything to 0.
+ */
+export function getValueScale(
+  type: GaugeScaleType = "linear",
+  min: number,
+  max: number,
+): ValueScale {
+  const clamp = (v: number) => Math.max(min, Math.min(max, v));
+  if (max <= min) {
+    return { toFraction: () => 0, fromFraction: () => min };
+  }
+
+  if (type === "log" && min > 0) {
+    const logMin = Math.log(min);
+    const logRange = Math.log(max) - logMin;
+    return {
+      toFraction: (v) => (Math.log(clamp(v)) - logMin) / logRange,
+      fromFraction: (f) => clamp(Math.exp(logMin + clamp01(f) * logRange)),
+    };
+  }
+
+  if (typeof type === "object") {
+    const n = Math.min(type.domain.length, type.range.length);
+    if (n >= 2) {
+      const domain = type.domain.slice(0, n);
+      const range = type.range.slice(0, n);
+      return {
+        toFraction: (v) => clamp01(interpolate(clamp(v), domain, range)),
+        fromFraction: (f) => clamp(interpolate(clamp01(f), range, domain)),
+      };
+    }
+  }
+
+  return {
+    toFraction: (v) => (clamp(v) - min) / (max - min),
+    fromFraction: (f) => min + clamp01(f) * (max - min),
+  };
+}
@@ -0,0 +1,45 @@
+/// <reference types="vite/client" />
+import { describe, it, expect } from "vitest";
+import stylesheet from "../tremor-gauge.css?raw";
+import { getClassNames, getDefaultColors } from "./styling";
+import { availableColors, colorValues, getColorValue } from "./chartColors";
+
+describe("getClassNames", () => {
+  it("defaults to Tailwind classes", () => {
+    expect(getClassNames().track).toBe("stroke-gray-200 dark:stroke-gray-800");
+    expect(getClassNames("tailwind")).toBe(getClassNames());
+  });
+
+  it("maps every part to a tremor-gauge class in css mode", () => {
+    const css = getClassNames("css");
+    expect(css.track).toBe("tremor-gauge-track");
+    expect(css.tooltipMarkerSwatch).toBe("tremor-gauge-tooltip-marker-swatch");
+    expect(Object.keys(css)).toEqual(Object.keys(getClassNames()));
+  });
+
+  it("styles every css class in the shipped stylesheet", () => {
+    for (const name of Object.values(getClassNames("css"))) {
+      expect(stylesheet).toMatch(new RegExp(`\\.${name}[\\s,{]`));
+    }
+  });
+});
+
+describe("getDefaultColors", () => {
+  it("cycles the Tremor palette in tailwind mode", () => {
+    expect(getDefaultColors()).toBe(availableColors);
+  });
+
+  it("reads the palette from custom properties in css mode", () => {
+    const colors = getDefaultColors("css");
+    expect(colors).toHaveLength(availableColors.length);
+    expect(getColorValue(colors[0])).toBe("var(--tremor-gauge-color-1)");
+  });
+
+  it("defines the palette with the same defaults in the stylesheet", () => {
+    availableColors.forEach((token, i) => {
+      expect(stylesheet).toContain(
+        `--tremor-gauge-color-${i + 1}: ${colorValues[token]};`,
+      );
+    });
+  });
+});
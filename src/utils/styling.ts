@@ -0,0 +1,145 @@
+import { type Color, availableColors } from "./chartColors";
+
+/**
+ * How the gauges paint their neutral chrome (track, text, needle, tooltips):
+ * - `"tailwind"` — Tailwind utility classes with `dark:` variants; the app's
+ *   Tailwind build must scan this package
+ * - `"css"` — `tremor-gauge-*` classes styled by the shipped
+ *   `tremor-gauge/styles.css`, which reads every color from
+ *   `--tremor-gauge-*` custom properties; no Tailwind needed
+ */
+export type GaugeStyling = "tailwind" | "css";
+
+/** Class names for each styled part of the gauges */
+export interface GaugeClassNames {
+  /** Root `<svg>` of a gauge */
+  root: string;
+  /** Root `<svg>` of a vertical linear gauge */
+  rootVertical: string;
+  /** Wrapper of gauges that render HTML tooltips */
+  container: string;
+  /** Root of an interactive (draggable) gauge */
+  interactive: string;
+  /** Root of a disabled interactive gauge */
+  disabled: string;
+  track: string;
+  thresholdBand: string;
+  thresholdTick: string;
+  tickMajor: string;
+  tickMinor: string;
+  tickLabel: string;
+  originTick: string;
+  markerStroke: string;
+  markerFill: string;
+  markerLabel: string;
+  /** Hoverable marker group */
+  marker: string;
+  needle: string;
+  /** Hub ring fill; its stroke is `needleHubStroke` */
+  needleHub: string;
+  needleHubStroke: string;
+  /** Ghost needles of the hold trail */
+  needleTrail: string;
+  /** Held max/min marks */
+  holdMark: string;
+  value: string;
+  label: string;
+  minMax: string;
+  /** Clickable segment or ring */
+  segment: string;
+  /** Segment or ring dimmed by another's highlight */
+  inactive: string;
+  tooltip: string;
+  tooltipRow: string;
+  tooltipSwatch: string;
+  tooltipMarkerSwatch: string;
+  /** Marker swatch without a marker color */
+  tooltipMarkerSwatchDefault: string;
+  tooltipLabel: string;
+  tooltipValue: string;
+  legend: string;
+  legendItem: string;
+  legendItemClickable: string;
+  legendItemStatic: string;
+  legendName: string;
+  legendSwatch: string;
+  legendNameText: string;
+  legendValues: string;
+  legendValue: string;
+  legendShare: string;
+}
+
+const tailwindClassNames: GaugeClassNames = {
+  root: "w-full",
+  rootVertical: "h-full",
+  container: "relative",
+  interactive:
+    "cursor-pointer touch-none select-none rounded-md outline-none focus-visible:ring-2 focus-visible:ring-blue-500",
+  disabled: "cursor-not-allowed opacity-50",
+  track: "stroke-gray-200 dark:stroke-gray-800",
+  thresholdBand: "opacity-15 dark:opacity-[0.12]",
+  thresholdTick: "opacity-50",
+  tickMajor: "stroke-gray-400 dark:stroke-gray-600",
+  tickMinor: "stroke-gray-300 dark:stroke-gray-700",
+  tickLabel: "fill-gray-500 dark:fill-gray-500",
+  originTick: "stroke-gray-400 dark:stroke-gray-500",
+  markerStroke: "stroke-gray-700 dark:stroke-gray-200",
+  markerFill: "fill-gray-700 dark:fill-gray-200",
+  markerLabel: "fill-gray-500 dark:fill-gray-400",
+  marker: "cursor-default",
+  needle: "fill-gray-700 dark:fill-gray-300",
+  needleHub: "fill-white dark:fill-gray-950",
+  needleHubStroke: "stroke-gray-700 dark:stroke-gray-300",
+  needleTrail: "stroke-gray-700 dark:stroke-gray-300",
+  holdMark: "stroke-gray-700 dark:stroke-gray-300",
+  value: "fill-gray-900 dark:fill-gray-50",
+  label: "fill-gray-500 dark:fill-gray-500",
+  minMax: "fill-gray-400 dark:fill-gray-600",
+  segment: "cursor-pointer transition-opacity duration-150",
+  inactive: "opacity-30",
+  tooltip:
+    "pointer-events-none absolute z-10 rounded-md border border-gray-200 bg-white px-3 py-1.5 text-sm shadow-sm dark:border-gray-800 dark:bg-gray-950",
+  tooltipRow: "flex items-center gap-2 whitespace-nowrap",
+  tooltipSwatch: "size-2.5 shrink-0 rounded-sm",
+  tooltipMarkerSwatch: "h-2.5 w-1 shrink-0 rounded-sm",
+  tooltipMarkerSwatchDefault: "bg-gray-700 dark:bg-gray-200",
+  tooltipLabel: "text-gray-500 dark:text-gray-500",
+  tooltipValue: "font-medium tabular-nums text-gray-900 dark:text-gray-50",
+  legend: "flex flex-col divide-y divide-gray-200 dark:divide-gray-800",
+  legendItem:
+    "flex w-full items-center justify-between gap-4 px-2 py-2.5 text-sm transition-opacity duration-150",
+  legendItemClickable: "cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-900",
+  legendItemStatic: "cursor-default",
+  legendName: "flex items-center gap-2 truncate",
+  legendSwatch: "size-2.5 shrink-0 rounded-sm",
+  legendNameText: "truncate text-gray-700 dark:text-gray-300",
+  legendValues: "flex items-center gap-2",
+  legendValue: "font-medium tabular-nums text-gray-900 dark:text-gray-50",
+  legendShare:
+    "rounded bg-gray-100 px-1.5 py-0.5 text-xs font-medium tabular-nums text-gray-500 dark:bg-gray-800 dark:text-gray-400",
+};
+
+/** `tremor-gauge-<kebab-key>` for each part, as styled in tremor-gauge.css */
+const cssClassNames: GaugeClassNames = { ...tailwindClassNames };
+for (const key of Object.keys(cssClassNames) as (keyof GaugeClassNames)[]) {
+  cssClassNames[key] =
+    `tremor-gauge-${key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}`;
+}
+
+/** Class names for a styling mode (default: `"tailwind"`) */
+export function getClassNames(styling: GaugeStyling = "tailwind") {
+  return styling === "css" ? cssClassNames : tailwindClassNames;
+}
+
+/**
+ * Series colors read from `--tremor-gauge-color-1` … `-9`, the `"css"`
+ * mode's counterpart to `availableColors`
+ */
+export const cssColors: Color[] = availableColors.map(
+  (_, i) => `--tremor-gauge-color-${i + 1}`,
+);
+
+/** Default series colors for a styling mode */
+export function getDefaultColors(styling: GaugeStyling = "tailwind"): Color[] {
+  return styling === "css" ? cssColors : availableColors;
+}
@@ -0,0 +1,153 @@
+import { type Color, getColorValue } from "./chartColors";
+import { getGradientColorAt } from "./gradient";
+
+export interface GaugeThreshold {
+  /** Value at which this zone starts */
+  value: number;
+  /** Color for this zone */
+  color: Color;
+}
+
+/** A threshold's zone as a value range, for drawing bands */
+export interface ThresholdZone {
+  from: number;
+  to: number;
+  color: Color;
+}
+
+/**
+ * Resolve the fill color from thresholds or plain color prop.
+ *
+ * With an `origin`, zones grow outward from it: above the origin a value
+ * takes the highest threshold it has reached, below it the lowest, and
+ * values that reach no threshold fall back to `color`.
+ *
+ * `invert` is for "lower is better" metrics: each zone ends at its
+ * threshold instead of starting there, so a value takes the lowest
+ * threshold at or above it (and, around an origin, zones grow inward).
+ */
+export function resolveColor(
+  value: number,
+  color: Color,
+  thresholds?: GaugeThreshold[],
+  origin?: number,
+  invert = false,
+): Color {
+  if (!thresholds || thresholds.length === 0) return color;
+  const sorted = [...thresholds].sort((a, b) => a.value - b.value);
+  if (invert) {
+    if (origin !== undefined) {
+      const reached =
+        value >= origin
+          ? sorted.find((t) => t.value >= origin && t.value >= value)
+          : [...sorted]
+              .reverse()
+              .find((t) => t.value <= origin && t.value <= value);
+      return reached ? reached.color : color;
+    }
+    const reached = sorted.find((t) => t.value >= value);
+    return reached ? reached.color : sorted[sorted.length - 1].color;
+  }
+  if (origin !== undefined) {
+    if (value >= origin) {
+      const reached = sorted.filter(
+        (t) => t.value >= origin && t.value <= value,
+      );
+      return reached.length > 0 ? reached[reached.length - 1].color : color;
+    }
+    const reached = sorted.find((t) => t.value <= origin && t.value >= value);
+    return reached ? reached.color : color;
+  }
+  let resolved = sorted[0].color;
+  for (const t of sorted) {
+    if (value >= t.value) resolved = t.color;
+    else break;
+  }
+  return resolved;
+}
+
+/**
+ * Fill color blended between threshold colors: each threshold's color sits
+ * exactly at its value, and values in between mix the two neighbors. Below
+ * the first threshold and above the last, the end colors hold. Anchored at
+ * the thresholds themselves, the blend has no direction, so it's the same
+ * for inverted zones and zones around an origin.
+ */
+export function interpolateThresholdColor(
+  value: number,
+  thresholds: GaugeThreshold[],
+): string {
+  const stops = [...thresholds]
+    .sort((a, b) => a.value - b.value)
+    .map((t) => ({ offset: t.value, color: getColorValue(t.color) }));
+  return getGradientColorAt(stops, value);
+}
+
+/**
+ * Split [min, max] into the zones covered by each threshold. Without an
+ * origin each zone runs up to the next threshold; with one, zones below the
+ * origin run down to the next lower threshold instead, mirroring
+ * `resolveColor`. Inverted zones run the other way: down from each
+ * threshold (the last one also up to `max`), or toward the origin.
+ */
+export function getThresholdZones(
+  thresholds: GaugeThreshold[],
+  min: number,
+  max: number,
+  origin?: number,
+  invert = false,
+): ThresholdZone[] {
+  const clamp = (v: number) => Math.max(min, Math.min(max, v));
+  const sorted = [...thresholds].sort((a, b) => a.value - b.value);
+  if (invert) {
+    const downFrom = (ts: GaugeThreshold[], floor: number) =>
+      ts.map((t, i) => {
+        const to = clamp(t.value);
+        const next = i > 0 ? clamp(ts[i - 1].value) : floor;
+        return { from: Math.min(to, next), to, color: t.color };
+      });
+    const upFrom = (ts: GaugeThreshold[], ceiling: number) =>
+      ts.map((t, i) => {
+        const from = clamp(t.value);
+        const next = i < ts.length - 1 ? clamp(ts[i + 1].value) : ceiling;
+        return { from, to: Math.max(from, next), color: t.color };
+      });
+    if (origin === undefined) {
+      const zones = downFrom(sorted, min);
+      // Values past the last threshold keep its color, as in resolveColor
+      if (zones.length > 0) zones[zones.length - 1].to = max;
+      return zones;
+    }
+    return [
+      ...upFrom(
+        sorted.filter((t) => t.value <= origin),
+        clamp(origin),
+      ),
+      ...downFrom(
+        sorted.filter((t) => t.value >= origin),
+        clamp(origin),
+      ),
+    ];
+  }
+  if (origin === undefined) {
+    return sorted.map((t, i) => {
+      const from = clamp(t.value);
+      const next = i < sorted.length - 1 ? clamp(sorted[i + 1].value) : max;
+      return { from, to: Math.max(from, next), color: t.color };
+    });
+  }
+  const above = sorted.filter((t) => t.value >= origin);
+  const below = sorted.filter((t) => t.value <= origin).reverse();
+  return [
+    ...below.map((t, i) => {
+      const to = clamp(t.value);
+      const next = i < below.length - 1 ? clamp(below[i + 1].value) : min;
+      return { from: Math.min(to, next), to, color: t.color };
+    }),
+    ...above.map((t, i) => {
+      const from = clamp(t.value);
+      const next = i < above.length - 1 ? clamp(above[i + 1].value) : max;
+      return { from, to: Math.max(from, next), color: t.color };
+    }),
+  ];
+}
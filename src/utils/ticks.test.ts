@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  getLogTicks,
+  getMinorTicks,
+  getNiceDomain,
+  getNiceStep,
+  getNiceTicks,
+} from "./ticks";
+
+describe("getNiceStep", () => {
+  it("rounds rough steps to 1, 2 or 5 times a power of ten", () => {
+    expect(getNiceStep(100, 5)).toBe(20);
+    expect(getNiceStep(100, 10)).toBe(10);
+    expect(getNiceStep(8000, 4)).toBe(2000);
+    expect(getNiceStep(1, 4)).toBeCloseTo(0.2);
+    expect(getNiceStep(7, 2)).toBe(5);
+  });
+
+  it("returns 0 for an empty range", () => {
+    expect(getNiceStep(0, 5)).toBe(0);
+  });
+});
+
+describe("getNiceTicks", () => {
+  it("returns nice ticks covering the range", () => {
+    expect(getNiceTicks(0, 100)).toEqual([0, 20, 40, 60, 80, 100]);
+  });
+
+  it("starts at the first nice value above min", () => {
+    expect(getNiceTicks(13, 97, 4)).toEqual([20, 40, 60, 80]);
+  });
+
+  it("avoids floating point noise on decimal steps", () => {
+    expect(getNiceTicks(0, 1, 5)).toEqual([0, 0.2, 0.4, 0.6, 0.8, 1]);
+  });
+
+  it("handles negative ranges", () => {
+    expect(getNiceTicks(-50, 50, 4)).toEqual([-40, -20, 0, 20, 40]);
+  });
+
+  it("returns min when the range is empty", () => {
+    expect(getNiceTicks(5, 5)).toEqual([5]);
+  });
+});
+
+describe("getMinorTicks", () => {
+  it("subdivides each major interval", () => {
+    expect(getMinorTicks([0, 10, 20], 1)).toEqual([5, 15]);
+    expect(getMinorTicks([0, 20], 3)).toEqual([5, 10, 15]);
+  });
+
+  it("returns nothing without divisions", () => {
+    expect(getMinorTicks([0, 10], 0)).toEqual([]);
+  });
+});
+
+describe("getNiceDomain", () => {
+  it("widens the range outward to nice steps", () => {
+    expect(getNiceDomain(13, 97, 4)).toEqual([0, 100]);
+    expect(getNiceDomain(0.12, 0.87, 4)).toEqual([0, 1]);
+  });
+
+  it("keeps bounds that already sit on a step", () => {
+    expect(getNiceDomain(0, 100)).toEqual([0, 100]);
+  });
+});
+
+describe("getLogTicks", () => {
+  it("returns each power of ten inside the range", () => {
+    expect(getLogTicks(1, 10000)).toEqual([1, 10, 100, 1000, 10000]);
+    expect(getLogTicks(0.005, 2)).toEqual([0.01, 0.1, 1]);
+  });
+
+  it("falls back to nice ticks for narrow or non-positive ranges", () => {
+    expect(getLogTicks(20, 80, 3)).toEqual(getNiceTicks(20, 80, 3));
+    expect(getLogTicks(0, 100)).toEqual(getNiceTicks(0, 100));
+  });
+});
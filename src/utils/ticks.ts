@@ -0,0 +1,100 @@
+/**
+ * "Nice" tick generation for gauge scales.
+ *
+ * Steps are rounded to 1, 2 or 5 times a power of ten so labels read
+ * naturally (0, 20, 40… rather than 0, 17, 34…).
+ */
+
+/** Number of decimals needed to print multiples of `step` exactly */
+function stepPrecision(step: number): number {
+  return Math.max(0, -Math.floor(Math.log10(step) + 1e-9));
+}
+
+/**
+ * Round a rough interval up or down to the closest 1/2/5 × 10ⁿ step.
+ *
+ * @param range - total extent being divided (max - min)
+ * @param count - approximate number of intervals wanted
+ */
+export function getNiceStep(range: number, count: number): number {
+  if (range <= 0 || count <= 0) return 0;
+  const rough = range / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const normalized = rough / magnitude;
+  const nice =
+    normalized < 1.5 ? 1 : normalized < 3 ? 2 : normalized < 7 ? 5 : 10;
+  return nice * magnitude;
+}
+
+/**
+ * Tick values at nice intervals inside [min, max].
+ *
+ * @param count - approximate number of intervals (default: 5)
+ */
+export function getNiceTicks(min: number, max: number, count = 5): number[] {
+  if (max <= min) return [min];
+  const step = getNiceStep(max - min, count);
+  const decimals = stepPrecision(step);
+  const ticks: number[] = [];
+  // Small epsilon keeps `max` itself when it lands on a step
+  const end = max + step * 1e-9;
+  for (let v = Math.ceil(min / step) * step; v <= end; v += step) {
+    ticks.push(Number(v.toFixed(decimals)));
+  }
+  return ticks;
+}
+
+/**
+ * Widen [min, max] outward to the nearest nice step on each side, e.g.
+ * 13..97 → 0..100.
+ *
+ * @param count - approximate number of intervals (default: 5)
+ */
+export function getNiceDomain(
+  min: number,
+  max: number,
+  count = 5,
+): [number, number] {
+  if (max <= min) return [min, max];
+  const step = getNiceStep(max - min, count);
+  const decimals = stepPrecision(step);
+  return [
+    Number((Math.floor(min / step + 1e-9) * step).toFixed(decimals)),
+    Number((Math.ceil(max / step - 1e-9) * step).toFixed(decimals)),
+  ];
+}
+
+/**
+ * Tick values for a logarithmic scale: each power of ten inside [min, max],
+ * or nice linear ticks when fewer than two powers of ten fall inside.
+ */
+export function getLogTicks(min: number, max: number, count = 5): number[] {
+  if (min <= 0 || max <= min) return getNiceTicks(min, max, count);
+  const first = Math.ceil(Math.log10(min) - 1e-9);
+  const last = Math.floor(Math.log10(max) + 1e-9);
+  if (last - first < 1) return getNiceTicks(min, max, count);
+  const ticks: number[] = [];
+  for (let e = first; e <= last; e++) {
+    // Round away floating point noise on negative exponents (0.001…)
+    ticks.push(Number(Math.pow(10, e).toFixed(Math.max(0, -e))));
+  }
+  return ticks;
+}
+
+/**
+ * Evenly spaced minor tick values between each pair of adjacent majors.
+ *
+ * @param majors - sorted major tick values
+ * @param divisions - minor ticks drawn between each pair of majors
+ */
+export function getMinorTicks(majors: number[], divisions: number): number[] {
+  if (divisions <= 0) return [];
+  const minors: number[] = [];
+  for (let i = 0; i < majors.length - 1; i++) {
+    const gap = (majors[i + 1] - majors[i]) / (divisions + 1);
+    for (let j = 1; j <= divisions; j++) {
+      minors.push(majors[i] + gap * j);
+    }
+  }
+  return minors;
+}
@@ -1,3 +1,4 @@
+import { copyFile } from "node:fs/promises";
 import { defineConfig } from "tsup";
 
 export default defineConfig({
@@ -10,4 +11,6 @@ export default defineConfig({
   banner: {
     js: '"use client";',
   },
+  // Stylesheet for `styling: "css"`, shipped as-is
+  onSuccess: () => copyFile("src/tremor-gauge.css", "dist/styles.css"),
 });
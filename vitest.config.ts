@@ -5,5 +5,7 @@ export default defineConfig({
     environment: "jsdom",
     setupFiles: ["./vitest.setup.ts"],
     globals: true,
+    // Let tests import the shipped stylesheet (as `?raw`) with its contents
+    css: { include: /tremor-gauge\.css/ },
   },
 });
@@ -1 +1,13 @@
 import "@testing-library/jest-dom/vitest";
+
+// jsdom has no PointerEvent; back it with MouseEvent so clientX/button survive
+if (typeof window !== "undefined" && !("PointerEvent" in window)) {
+  class PointerEvent extends MouseEvent {
+    pointerId: number;
+    constructor(type: string, init: PointerEventInit = {}) {
+      super(type, init);
+      this.pointerId = init.pointerId ?? 1;
+    }
+  }
+  Object.assign(window, { PointerEvent });
+}